@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfigFile, mergeSettings, parseConfig, resolveProfile } from './config-file.js';
+
+describe('parseConfig', () => {
+  it('converts config file keys into run settings', () => {
+    const config = parseConfig({
+      defaults: { delay: '250ms', retries: 1 },
+      profiles: {
+        soak: { services: ['privy'], chain: 'ethereum', duration: '2h', rate: 1, stats: 'streaming' },
+      },
+    }, 'slate.config.json');
+
+    assert.deepEqual(config.defaults, { delayMs: 250, retries: 1 });
+    assert.deepEqual(config.profiles.soak, {
+      services: ['privy'],
+      chain: 'ethereum',
+      durationMs: 2 * 60 * 60 * 1000,
+      ratePerSecond: 1,
+      statsMode: 'streaming',
+    });
+  });
+
+  it('names the offending key', () => {
+    assert.throws(
+      () => parseConfig({ profiles: { nightly: { iterations: 0 } } }, 'slate.config.json'),
+      /slate\.config\.json: profiles\.nightly\.iterations must be a positive integer/
+    );
+    assert.throws(
+      () => parseConfig({ profiles: { nightly: { chains: 'both' } } }, 'slate.config.json'),
+      /profiles\.nightly\.chains is not a known setting/
+    );
+    assert.throws(
+      () => parseConfig({ defaults: { operations: ['message', 'bogus'] } }, 'slate.config.json'),
+      /defaults\.operations\[1\] must be one of/
+    );
+  });
+
+  it('only allows per-service settings in overrides', () => {
+    const config = parseConfig({ defaults: { overrides: { privy: { delay: '1s' } } } }, 'slate.config.json');
+    assert.deepEqual(config.defaults.overrides, { privy: { delayMs: 1000 } });
+
+    assert.throws(
+      () => parseConfig({ defaults: { overrides: { privy: { output: 'privy.json' } } } }, 'slate.config.json'),
+      /overrides\.privy\.output is not a known setting/
+    );
+  });
+
+  it('rejects concurrency combined with rate', () => {
+    assert.throws(
+      () => parseConfig({ defaults: { concurrency: 2, rate: 5 } }, 'slate.config.json'),
+      /concurrency and rate cannot be combined/
+    );
+  });
+});
+
+describe('mergeSettings', () => {
+  it('lets later layers win and ignores undefined values', () => {
+    const merged = mergeSettings({ iterations: 20, delayMs: 100 }, { iterations: 50, delayMs: undefined });
+    assert.deepEqual(merged, { iterations: 50, delayMs: 100 });
+  });
+
+  it('drops the other load model when concurrency or rate is set', () => {
+    assert.deepEqual(mergeSettings({ ratePerSecond: 5 }, { concurrency: 2 }), { concurrency: 2 });
+    assert.deepEqual(mergeSettings({ concurrency: 2 }, { ratePerSecond: 5 }), { ratePerSecond: 5 });
+  });
+
+  it('merges overrides service by service', () => {
+    const merged = mergeSettings(
+      { overrides: { privy: { delayMs: 100, iterations: 5 } } },
+      { overrides: { privy: { delayMs: 250 }, magic: { concurrency: 2 } } }
+    );
+    assert.deepEqual(merged.overrides, {
+      privy: { delayMs: 250, iterations: 5 },
+      magic: { concurrency: 2 },
+    });
+  });
+});
+
+describe('resolveProfile', () => {
+  const config = parseConfig({
+    defaults: { delay: '100ms', chain: 'both' },
+    profiles: { quick: { chain: 'ethereum', iterations: 5 } },
+  }, 'slate.config.json');
+
+  it('applies the profile on top of the defaults', () => {
+    assert.deepEqual(resolveProfile(config, 'quick'), { delayMs: 100, chain: 'ethereum', iterations: 5 });
+    assert.deepEqual(resolveProfile(config), { delayMs: 100, chain: 'both' });
+  });
+
+  it('lists the available profiles for an unknown one', () => {
+    assert.throws(() => resolveProfile(config, 'nightly'), /Unknown profile "nightly".*available: quick/);
+    assert.throws(() => resolveProfile(undefined, 'nightly'), /no slate\.config\.ts or slate\.config\.json found/);
+  });
+});
+
+describe('loadConfigFile', () => {
+  it('finds slate.config.json in the working directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slate-config-'));
+    try {
+      assert.equal(await loadConfigFile(undefined, dir), undefined);
+
+      fs.writeFileSync(path.join(dir, 'slate.config.json'), JSON.stringify({ profiles: { quick: { iterations: 5 } } }));
+      const config = await loadConfigFile(undefined, dir);
+      assert.equal(config?.path, 'slate.config.json');
+      assert.deepEqual(config?.profiles.quick, { iterations: 5 });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Configuration File
+ *
+ * Loads run defaults and named profiles from `slate.config.json` (or
+ * `slate.config.ts`) so benchmark setups can be shared and reproduced, e.g.
+ * `npm run benchmark -- --profile nightly`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { EXPORT_FORMATS, type ExportFormat } from './export.js';
+import {
+  SCHEDULE_MODES,
+  SIGNING_OPERATIONS,
+  STATS_MODES,
+  type ScheduleMode,
+  type SigningOperation,
+  type StatsMode,
+} from './runner.js';
+import { RANKING_METRICS, type RankingMetric } from './statistics.js';
+import { parseDuration } from './utils.js';
+
+/** Config files looked up in the working directory, in order */
+export const CONFIG_FILE_NAMES = ['slate.config.ts', 'slate.config.json'];
+
+/**
+ * Run settings as written in a config file
+ *
+ * Keys mirror the command-line flags; durations are strings such as
+ * "100ms", "90s" or "2h".
+ */
+export interface ProfileSettings {
+  /** Service names, or ["all"] */
+  services?: string[];
+  chain?: 'ethereum' | 'solana' | 'both';
+  iterations?: number;
+  warmup?: number;
+  delay?: string;
+  concurrency?: number;
+  rate?: number;
+  duration?: string;
+  summaryInterval?: string;
+  stats?: StatsMode;
+  schedule?: ScheduleMode;
+  timeout?: string;
+  retries?: number;
+  retryBackoff?: string;
+  httpPhases?: boolean;
+  coldStart?: boolean;
+  operations?: SigningOperation[];
+  /** Messages signed by the `message` operation */
+  messages?: { ethereum?: string; solana?: string };
+  /** Message corpus: built-in set names and/or "file:<path>" entries */
+  corpus?: string[];
+  output?: string;
+  format?: ExportFormat;
+  /** HTML report file */
+  report?: string;
+  rankBy?: RankingMetric;
+  saveBaseline?: string;
+  /** Per-service settings, applied on top of the rest */
+  overrides?: Record<string, ServiceSettings>;
+}
+
+/**
+ * Settings that can differ between the services of one run
+ */
+export type ServiceSettings = Pick<
+  ProfileSettings,
+  'iterations' | 'warmup' | 'delay' | 'concurrency' | 'rate' | 'duration' | 'timeout' | 'retries' | 'retryBackoff' | 'messages'
+>;
+
+/**
+ * Contents of a config file
+ */
+export interface ConfigFile {
+  /** Applied to every run */
+  defaults?: ProfileSettings;
+  /** Named settings selected with --profile, applied on top of the defaults */
+  profiles?: Record<string, ProfileSettings>;
+}
+
+/**
+ * Validated run settings, with durations in milliseconds
+ */
+export interface RunSettings {
+  services?: string[];
+  chain?: 'ethereum' | 'solana' | 'both';
+  iterations?: number;
+  warmupIterations?: number;
+  delayMs?: number;
+  concurrency?: number;
+  ratePerSecond?: number;
+  durationMs?: number;
+  summaryIntervalMs?: number;
+  statsMode?: StatsMode;
+  schedule?: ScheduleMode;
+  timeoutMs?: number;
+  retries?: number;
+  retryBackoffMs?: number;
+  httpPhases?: boolean;
+  coldStart?: boolean;
+  operations?: SigningOperation[];
+  messages?: { ethereum?: string; solana?: string };
+  corpus?: string[];
+  output?: string;
+  format?: ExportFormat;
+  report?: string;
+  rankBy?: RankingMetric;
+  saveBaseline?: string;
+  overrides?: Record<string, RunSettings>;
+}
+
+/**
+ * A loaded and validated config file
+ */
+export interface SlateConfig {
+  path: string;
+  defaults: RunSettings;
+  profiles: Record<string, RunSettings>;
+}
+
+// ===== VALIDATION =====
+
+type FieldParser = (value: unknown, at: string) => unknown;
+
+function fail(at: string, expected: string): never {
+  throw new Error(`${at} must be ${expected}`);
+}
+
+function integer(min: number): FieldParser {
+  return (value, at) => {
+    if (!Number.isInteger(value) || (value as number) < min) {
+      fail(at, min === 0 ? 'a non-negative integer' : 'a positive integer');
+    }
+    return value;
+  };
+}
+
+function positiveNumber(value: unknown, at: string): number {
+  if (typeof value !== 'number' || !(value > 0)) fail(at, 'a positive number');
+  return value;
+}
+
+function duration(allowZero: boolean): FieldParser {
+  return (value, at) => {
+    const ms = typeof value === 'string' ? parseDuration(value) : undefined;
+    if (ms === undefined || ms < 0 || (ms === 0 && !allowZero)) {
+      fail(at, 'a duration such as "100ms", "90s" or "2h"');
+    }
+    return ms;
+  };
+}
+
+function string(value: unknown, at: string): string {
+  if (typeof value !== 'string' || value === '') fail(at, 'a non-empty string');
+  return value;
+}
+
+function boolean(value: unknown, at: string): boolean {
+  if (typeof value !== 'boolean') fail(at, 'true or false');
+  return value;
+}
+
+function oneOf<T extends string>(choices: readonly T[]): FieldParser {
+  return (value, at) => {
+    if (!choices.includes(value as T)) fail(at, `one of: ${choices.join(', ')}`);
+    return value;
+  };
+}
+
+function listOf(item: FieldParser): FieldParser {
+  return (value, at) => {
+    if (!Array.isArray(value) || value.length === 0) fail(at, 'a non-empty list');
+    return value.map((v, i) => item(v, `${at}[${i}]`));
+  };
+}
+
+function object(value: unknown, at: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(at, 'an object');
+  return value as Record<string, unknown>;
+}
+
+function messages(value: unknown, at: string): RunSettings['messages'] {
+  const raw = object(value, at);
+  for (const key of Object.keys(raw)) {
+    if (key !== 'ethereum' && key !== 'solana') throw new Error(`${at}.${key} is not a chain`);
+    string(raw[key], `${at}.${key}`);
+  }
+  return raw as RunSettings['messages'];
+}
+
+/**
+ * Config file keys, the run setting each one sets and how it is validated
+ */
+const SETTINGS_SCHEMA: Record<keyof ProfileSettings, [keyof RunSettings, FieldParser]> = {
+  services: ['services', listOf(string)],
+  chain: ['chain', oneOf(['ethereum', 'solana', 'both'])],
+  iterations: ['iterations', integer(1)],
+  warmup: ['warmupIterations', integer(0)],
+  delay: ['delayMs', duration(true)],
+  concurrency: ['concurrency', integer(1)],
+  rate: ['ratePerSecond', positiveNumber],
+  duration: ['durationMs', duration(false)],
+  summaryInterval: ['summaryIntervalMs', duration(false)],
+  stats: ['statsMode', oneOf(STATS_MODES)],
+  schedule: ['schedule', oneOf(SCHEDULE_MODES)],
+  timeout: ['timeoutMs', duration(false)],
+  retries: ['retries', integer(0)],
+  retryBackoff: ['retryBackoffMs', duration(true)],
+  httpPhases: ['httpPhases', boolean],
+  coldStart: ['coldStart', boolean],
+  operations: ['operations', listOf(oneOf(SIGNING_OPERATIONS))],
+  messages: ['messages', messages],
+  corpus: ['corpus', listOf(string)],
+  output: ['output', string],
+  format: ['format', oneOf(EXPORT_FORMATS)],
+  report: ['report', string],
+  rankBy: ['rankBy', oneOf(RANKING_METRICS)],
+  saveBaseline: ['saveBaseline', string],
+  overrides: ['overrides', (value, at) => parseOverrides(value, at)],
+};
+
+/** Keys allowed in a per-service override */
+const SERVICE_SETTINGS: (keyof ServiceSettings)[] = [
+  'iterations', 'warmup', 'delay', 'concurrency', 'rate', 'duration', 'timeout', 'retries', 'retryBackoff', 'messages',
+];
+
+/**
+ * Validate one block of settings
+ *
+ * @param allowed - Keys accepted in this block
+ */
+function parseSettings(
+  value: unknown,
+  at: string,
+  allowed: (keyof ProfileSettings)[] = Object.keys(SETTINGS_SCHEMA) as (keyof ProfileSettings)[]
+): RunSettings {
+  const raw = object(value, at);
+  const settings: Record<string, unknown> = {};
+
+  for (const [key, fieldValue] of Object.entries(raw)) {
+    if (!allowed.includes(key as keyof ProfileSettings)) {
+      throw new Error(`${at}.${key} is not a known setting (expected one of: ${allowed.join(', ')})`);
+    }
+    const [name, parse] = SETTINGS_SCHEMA[key as keyof ProfileSettings];
+    settings[name] = parse(fieldValue, `${at}.${key}`);
+  }
+
+  if (settings.concurrency !== undefined && settings.ratePerSecond !== undefined) {
+    throw new Error(`${at}: concurrency and rate cannot be combined`);
+  }
+
+  return settings as RunSettings;
+}
+
+function parseOverrides(value: unknown, at: string): Record<string, RunSettings> {
+  const raw = object(value, at);
+  return Object.fromEntries(
+    Object.entries(raw).map(([service, settings]) => [service, parseSettings(settings, `${at}.${service}`, SERVICE_SETTINGS)])
+  );
+}
+
+/**
+ * Validate the contents of a config file
+ *
+ * @throws Error naming the offending key when the contents are invalid
+ */
+export function parseConfig(raw: unknown, filePath: string): SlateConfig {
+  const file = object(raw, filePath);
+
+  for (const key of Object.keys(file)) {
+    if (key !== 'defaults' && key !== 'profiles') {
+      throw new Error(`${filePath}: unknown top-level key "${key}" (expected defaults or profiles)`);
+    }
+  }
+
+  const profiles = file.profiles === undefined ? {} : object(file.profiles, `${filePath}: profiles`);
+
+  return {
+    path: filePath,
+    defaults: file.defaults === undefined ? {} : parseSettings(file.defaults, `${filePath}: defaults`),
+    profiles: Object.fromEntries(
+      Object.entries(profiles).map(([name, settings]) => [name, parseSettings(settings, `${filePath}: profiles.${name}`)])
+    ),
+  };
+}
+
+// ===== LOADING =====
+
+/**
+ * Load and validate a config file
+ *
+ * @param filePath - Explicit path; otherwise the first of CONFIG_FILE_NAMES found in `cwd`
+ * @returns undefined when no path was given and no config file exists
+ */
+export async function loadConfigFile(filePath?: string, cwd: string = process.cwd()): Promise<SlateConfig | undefined> {
+  const resolved = filePath
+    ? path.resolve(cwd, filePath)
+    : CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).find(candidate => fs.existsSync(candidate));
+
+  if (!resolved) return undefined;
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Config file not found: ${filePath}`);
+  }
+
+  const relative = path.relative(cwd, resolved);
+  const displayPath = relative && !relative.startsWith('..') ? relative : resolved;
+  let raw: unknown;
+  if (resolved.endsWith('.json')) {
+    try {
+      raw = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`${displayPath}: invalid JSON: ${error.message}`);
+    }
+  } else {
+    raw = (await import(pathToFileURL(resolved).href)).default;
+  }
+
+  return parseConfig(raw, displayPath);
+}
+
+// ===== MERGING =====
+
+/**
+ * Combine layers of settings; later layers win
+ *
+ * Per-service overrides are merged service by service. Setting either
+ * `concurrency` or `ratePerSecond` drops the other from earlier layers,
+ * since the two load models cannot be combined.
+ */
+export function mergeSettings(...layers: RunSettings[]): RunSettings {
+  const merged: RunSettings = {};
+
+  for (const layer of layers) {
+    const defined = Object.fromEntries(Object.entries(layer).filter(([, value]) => value !== undefined));
+
+    if (defined.concurrency !== undefined) delete merged.ratePerSecond;
+    if (defined.ratePerSecond !== undefined) delete merged.concurrency;
+
+    const overrides = { ...merged.overrides };
+    for (const [service, settings] of Object.entries(layer.overrides ?? {})) {
+      overrides[service] = mergeSettings(overrides[service] ?? {}, settings);
+    }
+
+    Object.assign(merged, defined);
+    if (Object.keys(overrides).length > 0) merged.overrides = overrides;
+  }
+
+  return merged;
+}
+
+/**
+ * Settings for a run: config file defaults, then the named profile
+ *
+ * @throws Error if the profile does not exist
+ */
+export function resolveProfile(config: SlateConfig | undefined, profile?: string): RunSettings {
+  if (profile === undefined) {
+    return config?.defaults ?? {};
+  }
+
+  if (!config) {
+    throw new Error(`Profile "${profile}" requested but no ${CONFIG_FILE_NAMES.join(' or ')} found`);
+  }
+
+  const settings = config.profiles[profile];
+  if (!settings) {
+    const available = Object.keys(config.profiles);
+    throw new Error(
+      `Unknown profile "${profile}" in ${config.path}` +
+      (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+
+  return mergeSettings(config.defaults, settings);
+}
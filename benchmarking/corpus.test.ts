@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CORPUS_SIZES, corpusPayload, corpusSet, loadCorpus, payloadSize } from './corpus.js';
+
+describe('corpusSet', () => {
+  it('builds text messages of each size from 1 byte to 16 KB', () => {
+    const sizes = corpusSet('sizes');
+    assert.deepEqual(sizes.map(m => m.id), ['1B', '16B', '64B', '256B', '1KB', '4KB', '16KB']);
+    assert.deepEqual(sizes.map(payloadSize), CORPUS_SIZES);
+  });
+
+  it('fills unicode text without splitting a character', () => {
+    const [, long] = corpusSet('unicode');
+    assert.ok(payloadSize(long) <= 1024 && payloadSize(long) > 1000);
+    assert.equal(Buffer.from(long.data, 'utf8').toString('utf8'), long.data);
+    assert.ok(!long.data.includes('�'));
+  });
+
+  it('passes binary payloads as bytes', () => {
+    const [hash] = corpusSet('bytes');
+    const payload = corpusPayload(hash);
+    assert.ok(payload instanceof Uint8Array);
+    assert.equal(payload.length, 32);
+    assert.equal(payloadSize(hash), 32);
+  });
+});
+
+describe('loadCorpus', () => {
+  it('reads custom messages from text and JSON files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slate-corpus-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'lines.txt'), 'first message\n\nsecond message\n');
+      fs.writeFileSync(path.join(dir, 'custom.json'), JSON.stringify([
+        'plain',
+        { id: 'permit', text: 'Sign in to Acme' },
+        { hex: '0xDEADBEEF' },
+      ]));
+
+      const corpus = loadCorpus(['file:lines.txt', 'file:custom.json'], dir);
+      assert.deepEqual(corpus, [
+        { id: 'lines#1', encoding: 'utf8', data: 'first message' },
+        { id: 'lines#2', encoding: 'utf8', data: 'second message' },
+        { id: 'custom#1', encoding: 'utf8', data: 'plain' },
+        { id: 'permit', encoding: 'utf8', data: 'Sign in to Acme' },
+        { id: 'custom#3', encoding: 'hex', data: '0xdeadbeef' },
+      ]);
+
+      fs.writeFileSync(path.join(dir, 'bad.json'), JSON.stringify([{ hex: 'deadbeef' }]));
+      assert.throws(() => loadCorpus(['file:bad.json'], dir), /bad\.json: message 1 must be/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown sets, missing files and duplicate ids', () => {
+    assert.throws(() => loadCorpus(['huge']), /Unknown corpus "huge"/);
+    assert.throws(() => loadCorpus(['file:does-not-exist.txt']), /Corpus file not found/);
+    assert.throws(() => loadCorpus(['sizes', 'sizes']), /Duplicate corpus message id "1B"/);
+  });
+});
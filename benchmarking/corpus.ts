@@ -0,0 +1,193 @@
+/**
+ * Message Corpus
+ *
+ * Sets of messages signed one after another to see how latency grows with
+ * payload size and content. Providers that hash client-side show a flat
+ * curve; providers that send the whole message to be hashed server-side get
+ * slower as it grows.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SignableMessage } from '../services/index.js';
+
+/**
+ * Built-in message sets
+ *
+ * - `sizes`: ASCII text from 1 byte to 16 KB
+ * - `unicode`: multi-script text with emoji, short and 1 KB
+ * - `bytes`: raw binary payloads (32 bytes, like a hash, and 1 KB)
+ */
+export type CorpusSet = 'sizes' | 'unicode' | 'bytes';
+
+export const CORPUS_SETS: CorpusSet[] = ['sizes', 'unicode', 'bytes'];
+
+/**
+ * One message of a corpus
+ *
+ * Binary payloads are stored as hex so reports stay plain JSON.
+ */
+export interface CorpusMessage {
+  /** Short name used in reports, e.g. "1KB" or "unicode" */
+  id: string;
+  /** `utf8` signs `data` as text; `hex` signs the bytes of the 0x-prefixed hex string */
+  encoding: 'utf8' | 'hex';
+  data: string;
+}
+
+/** Payload sizes of the `sizes` set, in bytes */
+export const CORPUS_SIZES = [1, 16, 64, 256, 1024, 4096, 16384];
+
+const FILLER = 'The quick brown fox jumps over the lazy dog. ';
+
+const UNICODE_TEXT = 'Héllo, wörld! Привет, мир! 你好，世界！ مرحبا بالعالم 🔐✍️🚀 ';
+
+/**
+ * Short size label, e.g. "64B" or "4KB"
+ */
+export function formatBytes(bytes: number): string {
+  return bytes >= 1024 && bytes % 1024 === 0 ? `${bytes / 1024}KB` : `${bytes}B`;
+}
+
+/**
+ * Repeat text up to `bytes` UTF-8 bytes without splitting a character
+ */
+function fillText(text: string, bytes: number): string {
+  let result = '';
+  let size = 0;
+  for (const char of text.repeat(Math.ceil(bytes / Buffer.byteLength(text)))) {
+    size += Buffer.byteLength(char);
+    if (size > bytes) break;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Deterministic binary payload covering every byte value
+ */
+function binaryPayload(bytes: number): string {
+  const data = Buffer.alloc(bytes);
+  for (let i = 0; i < bytes; i++) {
+    data[i] = (i * 167 + 13) % 256;
+  }
+  return `0x${data.toString('hex')}`;
+}
+
+/**
+ * Messages of a built-in set
+ */
+export function corpusSet(set: CorpusSet): CorpusMessage[] {
+  switch (set) {
+    case 'sizes':
+      return CORPUS_SIZES.map(bytes => ({ id: formatBytes(bytes), encoding: 'utf8', data: fillText(FILLER, bytes) }));
+    case 'unicode':
+      return [
+        { id: 'unicode', encoding: 'utf8', data: UNICODE_TEXT.trim() },
+        { id: 'unicode-1KB', encoding: 'utf8', data: fillText(UNICODE_TEXT, 1024) },
+      ];
+    case 'bytes':
+      return [32, 1024].map(bytes => ({ id: `bytes-${formatBytes(bytes)}`, encoding: 'hex', data: binaryPayload(bytes) }));
+  }
+}
+
+/**
+ * Check that a string is 0x-prefixed hex of at least one byte
+ */
+function isHex(value: string): boolean {
+  return /^0x([0-9a-fA-F]{2})+$/.test(value);
+}
+
+/**
+ * Read custom messages from a file
+ *
+ * JSON files hold an array of strings or `{ "id"?, "text" }` / `{ "id"?, "hex" }`
+ * objects; any other file is read as one text message per non-empty line.
+ */
+export function loadCorpusFile(filePath: string, cwd: string = process.cwd()): CorpusMessage[] {
+  const resolved = path.resolve(cwd, filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Corpus file not found: ${filePath}`);
+  }
+
+  const name = path.basename(filePath, path.extname(filePath));
+  const defaultId = (index: number) => `${name}#${index + 1}`;
+  const content = fs.readFileSync(resolved, 'utf8');
+
+  if (path.extname(filePath).toLowerCase() !== '.json') {
+    return content
+      .split(/\r?\n/)
+      .filter(line => line.trim() !== '')
+      .map((line, index) => ({ id: defaultId(index), encoding: 'utf8', data: line }));
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`${filePath}: invalid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`${filePath}: expected a non-empty array of messages`);
+  }
+
+  return entries.map((entry, index): CorpusMessage => {
+    if (typeof entry === 'string' && entry !== '') {
+      return { id: defaultId(index), encoding: 'utf8', data: entry };
+    }
+
+    const id = typeof entry?.id === 'string' && entry.id !== '' ? entry.id : defaultId(index);
+    if (typeof entry?.text === 'string' && entry.text !== '') {
+      return { id, encoding: 'utf8', data: entry.text };
+    }
+    if (typeof entry?.hex === 'string' && isHex(entry.hex)) {
+      return { id, encoding: 'hex', data: entry.hex.toLowerCase() };
+    }
+    throw new Error(`${filePath}: message ${index + 1} must be a string, { "text" } or { "hex": "0x..." }`);
+  });
+}
+
+/**
+ * Build a corpus from built-in set names and `file:<path>` entries
+ *
+ * @throws Error for unknown sets, unreadable files or duplicate message ids
+ */
+export function loadCorpus(specs: string[], cwd: string = process.cwd()): CorpusMessage[] {
+  const messages = specs.flatMap(spec => {
+    if (spec.startsWith('file:')) {
+      return loadCorpusFile(spec.slice('file:'.length), cwd);
+    }
+    if (!CORPUS_SETS.includes(spec as CorpusSet)) {
+      throw new Error(`Unknown corpus "${spec}" (expected ${CORPUS_SETS.join(', ')} or file:<path>)`);
+    }
+    return corpusSet(spec as CorpusSet);
+  });
+
+  const seen = new Set<string>();
+  for (const message of messages) {
+    if (seen.has(message.id)) {
+      throw new Error(`Duplicate corpus message id "${message.id}"`);
+    }
+    seen.add(message.id);
+  }
+
+  return messages;
+}
+
+/**
+ * The value passed to the signing method: text, or raw bytes
+ */
+export function corpusPayload(message: CorpusMessage): SignableMessage {
+  return message.encoding === 'hex'
+    ? new Uint8Array(Buffer.from(message.data.slice(2), 'hex'))
+    : message.data;
+}
+
+/**
+ * Size of a message's payload in bytes (UTF-8 for text)
+ */
+export function payloadSize(message: CorpusMessage): number {
+  return message.encoding === 'hex'
+    ? (message.data.length - 2) / 2
+    : Buffer.byteLength(message.data, 'utf8');
+}
@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkService, formatServiceCheck, isServiceReady, runDoctor } from './doctor.js';
+
+const MANIFEST_SERVICE = `
+export const manifest = {
+  chains: ['ethereum', 'solana'],
+  env: [
+    { name: 'SLATE_TEST_API_KEY', description: 'API key' },
+    { name: 'SLATE_TEST_SOLANA_WALLET', description: 'Solana wallet', chains: ['solana'] },
+    { name: 'SLATE_TEST_REGION', description: 'Region', optional: true },
+  ],
+};
+
+export default class Service {
+  async initialize() {
+    if (!process.env.SLATE_TEST_API_KEY) throw new Error('Missing required env vars: SLATE_TEST_API_KEY');
+  }
+  async signMessageEthereum() {
+    return { signature: '0x', apiLatencyMs: 0, walletAddress: '0x' };
+  }
+  async signTypedDataEthereum() {
+    return { signature: '0x', apiLatencyMs: 0, walletAddress: '0x' };
+  }
+  async signMessageSolana() {
+    return { signature: '', apiLatencyMs: 0, walletAddress: '' };
+  }
+}
+`;
+
+describe('doctor', () => {
+  let servicesDir: string;
+
+  function addService(name: string, source: string) {
+    fs.mkdirSync(path.join(servicesDir, name));
+    fs.writeFileSync(path.join(servicesDir, name, 'index.ts'), source);
+  }
+
+  before(() => {
+    servicesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slate-doctor-'));
+    addService('acme', MANIFEST_SERVICE);
+    addService('plain', `
+export default class Service {
+  async initialize() {}
+  async signMessageEthereum() {
+    return { signature: '0x', apiLatencyMs: 0, walletAddress: '0x' };
+  }
+}
+`);
+    addService('hanging', `
+export default class Service {
+  initialize() { return new Promise(() => {}); }
+  async signMessageEthereum() {}
+}
+`);
+    addService('broken', 'export default 42;\n');
+    process.env.SLATE_TEST_API_KEY = 'key';
+  });
+
+  after(() => {
+    delete process.env.SLATE_TEST_API_KEY;
+    fs.rmSync(servicesDir, { recursive: true, force: true });
+  });
+
+  it('reports env vars and operations per chain from the manifest', async () => {
+    const check = (await checkService('acme', servicesDir))!;
+
+    assert.deepEqual(check.chains, [
+      { chain: 'ethereum', missing: [], operations: ['Ethereum', 'Ethereum typed data'] },
+      { chain: 'solana', missing: ['SLATE_TEST_SOLANA_WALLET'], operations: ['Solana'] },
+    ]);
+    assert.deepEqual(check.env?.map(v => [v.name, v.set]), [
+      ['SLATE_TEST_API_KEY', true],
+      ['SLATE_TEST_SOLANA_WALLET', false],
+      ['SLATE_TEST_REGION', false],
+    ]);
+    assert.equal(check.init?.ok, true);
+    assert.ok(isServiceReady(check)); // Ready on Ethereum
+
+    const output = formatServiceCheck(check);
+    assert.match(output, /Solana: ❌ missing SLATE_TEST_SOLANA_WALLET/);
+    assert.match(output, /➖ SLATE_TEST_REGION \(optional\) - Region/);
+  });
+
+  it('infers chains from the implemented methods without a manifest', async () => {
+    const check = (await checkService('plain', servicesDir))!;
+    assert.equal(check.env, undefined);
+    assert.deepEqual(check.chains.map(c => c.chain), ['ethereum']);
+    assert.ok(isServiceReady(check));
+  });
+
+  it('reports initialize() failures and timeouts', async () => {
+    delete process.env.SLATE_TEST_API_KEY;
+    try {
+      const check = (await checkService('acme', servicesDir))!;
+      assert.deepEqual(check.init && !check.init.ok && check.init.error, 'Missing required env vars: SLATE_TEST_API_KEY');
+      assert.equal(isServiceReady(check), false);
+    } finally {
+      process.env.SLATE_TEST_API_KEY = 'key';
+    }
+
+    const hanging = (await checkService('hanging', servicesDir, 20))!;
+    assert.equal(hanging.init?.ok, false);
+    assert.match(formatServiceCheck(hanging), /initialize\(\): ❌ Timed out/);
+  });
+
+  it('checks every service, including ones that fail to load', async () => {
+    const checks = await runDoctor(undefined, servicesDir);
+    assert.deepEqual(checks.map(c => c.name).sort(), ['acme', 'broken', 'hanging', 'plain']);
+    assert.equal(checks.find(c => c.name === 'broken')?.loadError, 'Default export is not a class');
+
+    await assert.rejects(runDoctor('nope', servicesDir), /No service found matching: nope/);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Service Doctor
+ *
+ * Checks each service's setup without running a benchmark: which env vars
+ * from its manifest are set, which chains and operations it supports, and
+ * whether initialize() succeeds. Run with `npm run benchmark doctor`.
+ */
+
+import { missingEnvVars, type EnvVar } from '../services/index.js';
+import { DEFAULT_TIMEOUT_MS, SIGNING_OPERATIONS, supportsOperation } from './runner.js';
+import { getAvailableServices, loadServiceModule, type LoadedService } from './service-discovery.js';
+import { capitalize, describeOperation, formatDuration } from './utils.js';
+
+const CHAINS: ('ethereum' | 'solana')[] = ['ethereum', 'solana'];
+
+/**
+ * An env var from a service's manifest and whether it is set
+ */
+export interface EnvVarCheck extends EnvVar {
+  set: boolean;
+}
+
+/**
+ * A chain a service can sign on and whether its required env vars are set
+ */
+export interface ChainCheck {
+  chain: 'ethereum' | 'solana';
+  /** Required env vars for this chain that are not set */
+  missing: string[];
+  /** Operations implemented on this chain, e.g. "Ethereum typed data" */
+  operations: string[];
+}
+
+/**
+ * Outcome of calling initialize()
+ */
+export type InitCheck =
+  | { ok: true; durationMs: number }
+  | { ok: false; durationMs: number; error: string };
+
+/**
+ * Everything the doctor found out about one service
+ */
+export interface ServiceCheck {
+  name: string;
+  /** Why the module could not be loaded; nothing else is checked then */
+  loadError?: string;
+  /** Env vars from the manifest; undefined if the service exports none */
+  env?: EnvVarCheck[];
+  chains: ChainCheck[];
+  init?: InitCheck;
+}
+
+/**
+ * Call initialize(), giving up after `timeoutMs`
+ */
+async function checkInitialize(initialize: () => Promise<void>, timeoutMs: number): Promise<InitCheck> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${formatDuration(timeoutMs)}`)), timeoutMs);
+  });
+
+  const start = performance.now();
+  try {
+    await Promise.race([initialize(), timeout]);
+    return { ok: true, durationMs: performance.now() - start };
+  } catch (error: any) {
+    return { ok: false, durationMs: performance.now() - start, error: error.message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Check a single service
+ *
+ * @param servicesDir - Directory to load from (defaults to the repo's services/ directory)
+ * @returns undefined if the folder is not a service (no index.ts)
+ */
+export async function checkService(
+  name: string,
+  servicesDir?: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS
+): Promise<ServiceCheck | undefined> {
+  let loaded: LoadedService | undefined;
+  try {
+    loaded = await loadServiceModule(name, servicesDir);
+  } catch (error: any) {
+    return { name, loadError: error.message, chains: [] };
+  }
+  if (!loaded) return undefined;
+
+  const { service, manifest } = loaded;
+
+  const chains = CHAINS
+    .map(chain => ({
+      chain,
+      missing: manifest ? missingEnvVars(manifest, [chain]) : [],
+      operations: SIGNING_OPERATIONS
+        .filter(operation => supportsOperation(service, chain, operation))
+        .map(operation => describeOperation(chain, operation)),
+    }))
+    // Without a manifest, a chain is supported if the service implements any operation on it
+    .filter(check => manifest ? manifest.chains.includes(check.chain) : check.operations.length > 0);
+
+  return {
+    name,
+    env: manifest?.env.map(v => ({ ...v, set: !!process.env[v.name] })),
+    chains,
+    init: await checkInitialize(() => service.initialize(), timeoutMs),
+  };
+}
+
+/**
+ * Check every service in the services directory, or just one
+ *
+ * @param filter - Service name, 'all', or undefined (=all)
+ * @throws Error if no service matches the filter
+ */
+export async function runDoctor(filter?: string, servicesDir?: string): Promise<ServiceCheck[]> {
+  const available = getAvailableServices(servicesDir);
+  const names = filter && filter !== 'all'
+    ? available.filter(name => name.toLowerCase() === filter.toLowerCase())
+    : available;
+
+  if (names.length === 0) {
+    throw new Error(`No service found matching: ${filter} (available: ${available.join(', ')})`);
+  }
+
+  const checks: ServiceCheck[] = [];
+  for (const name of names) {
+    const check = await checkService(name, servicesDir);
+    if (check) checks.push(check);
+  }
+  return checks;
+}
+
+/**
+ * Whether a service is ready to benchmark on at least one chain
+ */
+export function isServiceReady(check: ServiceCheck): boolean {
+  return check.init?.ok === true && check.chains.some(c => c.missing.length === 0);
+}
+
+/**
+ * Format one service's checks for display
+ */
+export function formatServiceCheck(check: ServiceCheck): string {
+  const lines = [`${isServiceReady(check) ? '✅' : '❌'} ${capitalize(check.name)}`];
+
+  if (check.loadError) {
+    lines.push(`   ${check.loadError}`);
+    return lines.join('\n');
+  }
+
+  if (check.chains.length === 0) {
+    lines.push('   Chains: none');
+  }
+  for (const { chain, missing, operations } of check.chains) {
+    const status = missing.length === 0 ? '✅' : `❌ missing ${missing.join(', ')}`;
+    lines.push(`   ${capitalize(chain)}: ${status}`);
+    lines.push(`      Operations: ${operations.length > 0 ? operations.join(', ') : 'none'}`);
+  }
+
+  if (check.env) {
+    lines.push('   Env vars:');
+    for (const v of check.env) {
+      const status = v.set ? '✅' : v.optional ? '➖' : '❌';
+      const notes = [...(v.chains ?? []).map(capitalize), ...(v.optional ? ['optional'] : [])];
+      const scope = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+      lines.push(`      ${status} ${v.name}${scope} - ${v.description}`);
+    }
+  } else {
+    lines.push('   Env vars: no manifest exported, only checked by initialize()');
+  }
+
+  if (check.init) {
+    lines.push(check.init.ok
+      ? `   initialize(): ✅ ${check.init.durationMs.toFixed(0)}ms`
+      : `   initialize(): ❌ ${check.init.error}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WalletServiceError } from '../services/index.js';
+import { classifyError, mergeBreakdowns, tallyErrors } from './errors.js';
+
+describe('classifyError', () => {
+  it('classifies HTTP status codes', () => {
+    assert.equal(classifyError(new WalletServiceError('Too Many Requests', { status: 429 })), 'rate-limited');
+    assert.equal(classifyError(new WalletServiceError('Unauthorized', { status: 401 })), 'auth');
+    assert.equal(classifyError(new WalletServiceError('Forbidden', { status: 403 })), 'auth');
+    assert.equal(classifyError(new WalletServiceError('Bad Gateway', { status: 502 })), 'server');
+    assert.equal(classifyError(new WalletServiceError('Not Found', { status: 404 })), 'other');
+  });
+
+  it('prefers the timeout flag over everything else', () => {
+    assert.equal(classifyError(new WalletServiceError('Service Unavailable', { status: 503 }), true), 'timeout');
+  });
+
+  it('finds network error codes in the cause chain', () => {
+    const dns = Object.assign(new Error('getaddrinfo ENOTFOUND api.example.com'), { code: 'ENOTFOUND' });
+    const fetchError = new TypeError('fetch failed', { cause: dns });
+    assert.equal(classifyError(new WalletServiceError('Signing failed: fetch failed', { cause: fetchError })), 'network');
+  });
+
+  it('classifies unparseable responses as malformed', () => {
+    const parseError = new SyntaxError('Unexpected token < in JSON at position 0');
+    assert.equal(classifyError(new WalletServiceError('Signing failed', { cause: parseError })), 'malformed-response');
+  });
+
+  it('falls back to the message text', () => {
+    assert.equal(classifyError(new Error('rate limit exceeded')), 'rate-limited');
+    assert.equal(classifyError(new Error('request returned 503 Service Unavailable')), 'server');
+    assert.equal(classifyError(new Error('something odd happened')), 'other');
+  });
+});
+
+describe('tallyErrors', () => {
+  it('counts final failures, retried calls and verification failures by category', () => {
+    const breakdown = tallyErrors([
+      { success: true, apiLatencyMs: 10, verified: true },
+      {
+        success: true,
+        apiLatencyMs: 10,
+        verified: true,
+        retriedAttempts: [{ error: 'Too Many Requests', errorCategory: 'rate-limited', timedOut: false }],
+      },
+      { success: false, error: 'Too Many Requests', errorCategory: 'rate-limited' },
+      { success: false, error: 'Timed out after 30s', errorCategory: 'timeout', timedOut: true },
+      { success: true, apiLatencyMs: 10, verified: false, error: 'Signer mismatch', errorCategory: 'verification' },
+    ]);
+
+    assert.deepEqual(breakdown, [
+      { category: 'rate-limited', count: 1, retriedCount: 1, examples: ['Too Many Requests'] },
+      { category: 'timeout', count: 1, retriedCount: 0, examples: ['Timed out after 30s'] },
+      { category: 'verification', count: 1, retriedCount: 0, examples: ['Signer mismatch'] },
+    ]);
+  });
+
+  it('keeps a few distinct examples per category', () => {
+    const results = Array.from({ length: 10 }, (_, i) => ({
+      success: false,
+      error: `HTTP 503 (attempt ${i % 5})`,
+      errorCategory: 'server' as const,
+    }));
+
+    const [entry] = tallyErrors(results);
+    assert.equal(entry.count, 10);
+    assert.equal(entry.examples.length, 3);
+  });
+});
+
+describe('mergeBreakdowns', () => {
+  it('adds up counts per category', () => {
+    const merged = mergeBreakdowns(
+      [{ category: 'server', count: 2, retriedCount: 1, examples: ['a'] }],
+      [
+        { category: 'auth', count: 1, retriedCount: 0, examples: ['b'] },
+        { category: 'server', count: 3, retriedCount: 0, examples: ['a', 'c'] },
+      ]
+    );
+
+    assert.deepEqual(merged, [
+      { category: 'auth', count: 1, retriedCount: 0, examples: ['b'] },
+      { category: 'server', count: 5, retriedCount: 1, examples: ['a', 'c'] },
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Error Taxonomy
+ *
+ * Classifies failed signing attempts so reports can tell throttling apart
+ * from outages, expired credentials or broken responses.
+ */
+
+import type { SigningResult } from './runner.js';
+
+/**
+ * Why a signing attempt failed
+ *
+ * - `rate-limited`: HTTP 429 or an explicit rate-limit message
+ * - `auth`: HTTP 401/403 or rejected credentials
+ * - `timeout`: hit the per-call timeout
+ * - `network`: DNS, connection or TLS failure before a response arrived
+ * - `server`: HTTP 5xx
+ * - `malformed-response`: a response arrived but could not be parsed
+ * - `verification`: a signature was returned but failed verification
+ * - `other`: anything else, including other HTTP 4xx errors
+ */
+export type ErrorCategory =
+  | 'rate-limited'
+  | 'auth'
+  | 'timeout'
+  | 'network'
+  | 'server'
+  | 'malformed-response'
+  | 'verification'
+  | 'other';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'rate-limited', 'auth', 'timeout', 'network', 'server', 'malformed-response', 'verification', 'other',
+];
+
+/** Distinct example messages kept per category */
+export const MAX_ERROR_EXAMPLES = 3;
+
+/**
+ * Failures of one category within a chain benchmark
+ */
+export interface ErrorBreakdownEntry {
+  category: ErrorCategory;
+  /** Attempts that ended with this error */
+  count: number;
+  /** Calls with this error that were followed by a retry */
+  retriedCount: number;
+  /** A few distinct error messages */
+  examples: string[];
+}
+
+/** Node.js and undici error codes that mean the request never got a response */
+const NETWORK_ERROR_CODES = new Set([
+  'ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'EHOSTUNREACH',
+  'ENETUNREACH', 'EPIPE', 'ETIMEDOUT', 'CERT_HAS_EXPIRED', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+]);
+
+/**
+ * Walk an error and its `cause` chain
+ */
+function* errorChain(error: any): Generator<any> {
+  const seen = new Set<unknown>();
+  while (error && typeof error === 'object' && !seen.has(error)) {
+    seen.add(error);
+    yield error;
+    error = error.cause;
+  }
+}
+
+/**
+ * Classify an HTTP status code
+ */
+function classifyStatus(status: number): ErrorCategory {
+  if (status === 429) return 'rate-limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'server';
+  return 'other';
+}
+
+/**
+ * Classify a failed signing call
+ *
+ * Structured information wins: the runner's timeout flag, then an HTTP
+ * `status` (as set by WalletServiceError and most SDK errors), then network
+ * error codes and parse errors anywhere in the `cause` chain. Messages are
+ * only pattern-matched as a last resort.
+ */
+export function classifyError(error: unknown, timedOut = false): ErrorCategory {
+  if (timedOut) return 'timeout';
+
+  const chain = [...errorChain(error)];
+
+  const status = chain.find(e => typeof e.status === 'number')?.status;
+  if (status !== undefined) return classifyStatus(status);
+
+  for (const e of chain) {
+    if (e.name === 'AbortError' || e.name === 'TimeoutError') return 'timeout';
+    if (NETWORK_ERROR_CODES.has(e.code) || String(e.code ?? '').startsWith('UND_ERR_')) return 'network';
+    if (e instanceof SyntaxError) return 'malformed-response';
+  }
+
+  const message = chain.map(e => String(e.message ?? '')).join(' ') || String(error ?? '');
+  if (/\b429\b|rate.?limit|too many requests/i.test(message)) return 'rate-limited';
+  if (/\b40[13]\b|unauthori[sz]ed|forbidden|invalid (api )?key|expired token/i.test(message)) return 'auth';
+  if (/timed? ?out/i.test(message)) return 'timeout';
+  if (/\b5\d\d\b|internal server error|bad gateway|service unavailable/i.test(message)) return 'server';
+  if (/fetch failed|socket hang up|network/i.test(message)) return 'network';
+  if (/unexpected token|invalid json|malformed/i.test(message)) return 'malformed-response';
+  return 'other';
+}
+
+/**
+ * Human-readable name for an error category
+ */
+export function describeErrorCategory(category: ErrorCategory): string {
+  switch (category) {
+    case 'rate-limited':
+      return 'Rate limited (429)';
+    case 'auth':
+      return 'Auth failure';
+    case 'timeout':
+      return 'Timeout';
+    case 'network':
+      return 'Network/DNS';
+    case 'server':
+      return 'Server error (5xx)';
+    case 'malformed-response':
+      return 'Malformed response';
+    case 'verification':
+      return 'Verification failure';
+    case 'other':
+      return 'Other';
+  }
+}
+
+/**
+ * Add one error to a breakdown in place
+ */
+export function recordError(
+  breakdown: ErrorBreakdownEntry[],
+  category: ErrorCategory,
+  message: string | undefined,
+  retried = false
+): void {
+  let entry = breakdown.find(e => e.category === category);
+  if (!entry) {
+    entry = { category, count: 0, retriedCount: 0, examples: [] };
+    breakdown.push(entry);
+  }
+
+  if (retried) {
+    entry.retriedCount++;
+  } else {
+    entry.count++;
+  }
+
+  if (message && entry.examples.length < MAX_ERROR_EXAMPLES && !entry.examples.includes(message)) {
+    entry.examples.push(message);
+  }
+}
+
+/**
+ * Add a signing result (its final outcome and any retried calls) to a breakdown
+ */
+export function recordResultErrors(breakdown: ErrorBreakdownEntry[], result: SigningResult): void {
+  for (const retried of result.retriedAttempts ?? []) {
+    recordError(breakdown, retried.errorCategory, retried.error, true);
+  }
+
+  if (result.errorCategory) {
+    recordError(breakdown, result.errorCategory, result.error);
+  }
+}
+
+/**
+ * Per-category breakdown of every failure in a list of results
+ *
+ * @returns Entries ordered by taxonomy, empty categories omitted
+ */
+export function tallyErrors(results: SigningResult[]): ErrorBreakdownEntry[] {
+  const breakdown: ErrorBreakdownEntry[] = [];
+  results.forEach(result => recordResultErrors(breakdown, result));
+  return sortBreakdown(breakdown);
+}
+
+/**
+ * Combine several breakdowns into one
+ */
+export function mergeBreakdowns(...breakdowns: ErrorBreakdownEntry[][]): ErrorBreakdownEntry[] {
+  const merged: ErrorBreakdownEntry[] = [];
+  for (const entry of breakdowns.flat()) {
+    let target = merged.find(e => e.category === entry.category);
+    if (!target) {
+      target = { category: entry.category, count: 0, retriedCount: 0, examples: [] };
+      merged.push(target);
+    }
+    target.count += entry.count;
+    target.retriedCount += entry.retriedCount;
+    for (const example of entry.examples) {
+      if (target.examples.length < MAX_ERROR_EXAMPLES && !target.examples.includes(example)) {
+        target.examples.push(example);
+      }
+    }
+  }
+  return sortBreakdown(merged);
+}
+
+/**
+ * Order breakdown entries by taxonomy
+ */
+export function sortBreakdown(breakdown: ErrorBreakdownEntry[]): ErrorBreakdownEntry[] {
+  return [...breakdown].sort((a, b) => ERROR_CATEGORIES.indexOf(a.category) - ERROR_CATEGORIES.indexOf(b.category));
+}
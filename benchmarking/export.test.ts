@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRunReport, formatMarkdownReport, formatResultsCsv, inferFormat } from './export.js';
+import type { BenchmarkResult, ChainBenchmarkResult } from './runner.js';
+import { calculateAllStats } from './statistics.js';
+import { StreamingRecorder } from './streaming.js';
+
+function chainResult(serviceName: string, chain: 'ethereum' | 'solana', latencies: number[]): ChainBenchmarkResult {
+  return {
+    chain,
+    operation: 'message',
+    serviceName,
+    results: latencies.map(apiLatencyMs => ({ success: true, apiLatencyMs, verified: true })),
+    successCount: latencies.length,
+    errorCount: 0,
+    concurrency: 1,
+    durationMs: 1000,
+  };
+}
+
+describe('inferFormat', () => {
+  it('infers the format from the file extension', () => {
+    assert.equal(inferFormat('out/run.csv'), 'csv');
+    assert.equal(inferFormat('RESULTS.MD'), 'markdown');
+    assert.equal(inferFormat('results.markdown'), 'markdown');
+    assert.equal(inferFormat('results'), 'json');
+  });
+});
+
+describe('formatResultsCsv', () => {
+  it('flags outlying attempts', () => {
+    const results: BenchmarkResult[] = [
+      { serviceName: 'privy', ethereum: chainResult('privy', 'ethereum', [...Array(19).fill(100), 4000]) },
+    ];
+    const report = createRunReport({ chain: 'ethereum', iterations: 20 }, results, calculateAllStats(results));
+    const [header, ...rows] = formatResultsCsv(report).trim().split('\n');
+
+    const column = header.split(',').indexOf('outlier');
+    assert.ok(column >= 0);
+    assert.deepEqual(rows.map(row => row.split(',')[column]), [...Array(19).fill('false'), 'true']);
+    assert.equal(report.results[0].ethereum!.results[19].outlier, true);
+    // The flags go on copies, so the statistics' inputs stay as they were
+    assert.ok(results[0].ethereum!.results.every(r => r.outlier === undefined));
+  });
+
+  it('numbers streaming failures by their real iteration', () => {
+    const streaming = new StreamingRecorder();
+    const failure = { success: false, error: 'boom', iteration: 4000 };
+    streaming.record(failure);
+    const results: BenchmarkResult[] = [{
+      serviceName: 'privy',
+      ethereum: { ...chainResult('privy', 'ethereum', []), results: [failure, { success: false }], streaming },
+    }];
+    const report = createRunReport({ chain: 'ethereum', iterations: 5000 }, results, calculateAllStats(results));
+    const [header, ...rows] = formatResultsCsv(report).trim().split('\n');
+
+    const column = header.split(',').indexOf('iteration');
+    assert.deepEqual(rows.map(row => row.split(',')[column]), ['4000', '']);
+  });
+});
+
+describe('formatMarkdownReport', () => {
+  it('has rankings per chain, details per service and a metadata footer', () => {
+    const results: BenchmarkResult[] = [
+      { serviceName: 'privy', ethereum: chainResult('privy', 'ethereum', [100, 120]) },
+      {
+        serviceName: 'magic',
+        ethereum: chainResult('magic', 'ethereum', [200, 220]),
+        solana: chainResult('magic', 'solana', [300, 320]),
+      },
+    ];
+    const report = createRunReport({ chain: 'both', iterations: 2, concurrency: 1 }, results, calculateAllStats(results));
+    const markdown = formatMarkdownReport(report);
+
+    const headings = markdown.split('\n').filter(line => line.startsWith('#'));
+    assert.deepEqual(headings, [
+      '# Benchmark results', '## Ethereum', '## Solana', '## Service details', '### Privy', '### Magic',
+    ]);
+    // Two samples each are too few to tell the services apart, so they share rank 1
+    assert.match(markdown, /## Ethereum\n\n.*\n.*\n\| 1 \| Privy \|.*\n\| 1 \| Magic \|/);
+    assert.match(markdown, /\| Consolidated \| 4 \|/);
+    assert.match(markdown, /\n---\n\n_Run .* · Ethereum and Solana, 2 iterations, 2 warmup, concurrency 1 · Node v\d+/);
+  });
+});
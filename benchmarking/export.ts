@@ -0,0 +1,343 @@
+/**
+ * Result Export
+ *
+ * Serializes benchmark results into machine-readable formats (JSON, CSV)
+ * so runs can be loaded into notebooks and dashboards without scraping stdout,
+ * and into Markdown for pull requests and wiki pages.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { listChainResults, type BenchmarkConfig, type BenchmarkResult, type ChainBenchmarkResult } from './runner.js';
+import {
+  describeRankingMetric,
+  formatRankingsMarkdown,
+  formatServiceStatsMarkdown,
+  getChainStats,
+  listChainStats,
+  type ChainStats,
+  type ServiceStats,
+} from './statistics.js';
+import { capitalize, describeOperation, describeRunLength, resultLatency } from './utils.js';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'markdown'];
+
+/**
+ * Metadata describing the environment a run was executed in
+ */
+export interface RunMetadata {
+  /** ISO-8601 time the report was created */
+  timestamp: string;
+  nodeVersion: string;
+  host: string;
+  platform: string;
+  config: BenchmarkConfig;
+}
+
+/**
+ * Everything needed to reproduce the numbers of a single run
+ */
+export interface RunReport {
+  metadata: RunMetadata;
+  results: BenchmarkResult[];
+  stats: ServiceStats[];
+}
+
+/**
+ * Statistics a chain result was summarized into
+ */
+function statsForChainResult(service: ServiceStats, chainResult: ChainBenchmarkResult): ChainStats | undefined {
+  const { chain, operation, message } = chainResult;
+  return message
+    ? service.corpus?.find(s => s.chain === chain && s.message?.id === message.id)
+    : getChainStats(service, chain, operation);
+}
+
+/**
+ * Copy the results, marking each successful attempt with whether it lies
+ * outside its chain's outlier range
+ */
+function flagOutliers(results: BenchmarkResult[], stats: ServiceStats[]): BenchmarkResult[] {
+  return results.map(result => {
+    const service = stats.find(s => s.serviceName === result.serviceName);
+    const flag = (chainResult: ChainBenchmarkResult): ChainBenchmarkResult => {
+      const chainStats = service && statsForChainResult(service, chainResult);
+      if (!chainStats) return chainResult;
+
+      const { lower, upper } = chainStats.outliers;
+      return {
+        ...chainResult,
+        results: chainResult.results.map(r => {
+          const latencyMs = resultLatency(r);
+          return latencyMs === undefined ? r : { ...r, outlier: latencyMs < lower || latencyMs > upper };
+        }),
+      };
+    };
+
+    return {
+      ...result,
+      ethereum: result.ethereum && flag(result.ethereum),
+      solana: result.solana && flag(result.solana),
+      operations: result.operations?.map(flag),
+      corpus: result.corpus?.map(flag),
+    };
+  });
+}
+
+/**
+ * Bundle results and statistics with run metadata
+ *
+ * The report's results are copies with each successful attempt flagged as an
+ * outlier or not; the results passed in are left untouched.
+ */
+export function createRunReport(
+  config: BenchmarkConfig,
+  results: BenchmarkResult[],
+  stats: ServiceStats[]
+): RunReport {
+  return {
+    metadata: {
+      timestamp: new Date().toISOString(),
+      nodeVersion: process.version,
+      host: os.hostname(),
+      platform: `${os.platform()}-${os.arch()}`,
+      config,
+    },
+    results: flagOutliers(results, stats),
+    stats,
+  };
+}
+
+/**
+ * Infer the export format from a file extension, defaulting to JSON
+ */
+export function inferFormat(filePath: string): ExportFormat {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.md' || ext === '.markdown') return 'markdown';
+  return 'json';
+}
+
+// ===== CSV =====
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or newline
+ */
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function csvRow(values: unknown[]): string {
+  return values.map(csvField).join(',');
+}
+
+/**
+ * One row per signing attempt, including failures
+ *
+ * Corpus results follow the others, with the message id and size filled in.
+ */
+export function formatResultsCsv(report: RunReport): string {
+  const header = [
+    'timestamp', 'service', 'chain', 'operation', 'iteration', 'success', 'api_latency_ms',
+    'wall_clock_ms', 'schedule_delay_ms', 'retry_delay_ms', 'verified', 'attempts', 'timed_out', 'wallet_address', 'signature', 'error',
+    'error_category', 'connection_reused', 'dns_ms', 'connect_ms', 'tls_ms', 'ttfb_ms', 'download_ms',
+    'message', 'message_bytes', 'init_ms', 'outlier',
+  ];
+  const rows = [csvRow(header)];
+
+  for (const result of report.results) {
+    for (const chainResult of [...listChainResults(result), ...(result.corpus ?? [])]) {
+      chainResult.results.forEach((r, index) => {
+        rows.push(csvRow([
+          report.metadata.timestamp,
+          chainResult.serviceName,
+          chainResult.chain,
+          chainResult.operation,
+          // Streaming results are only the retained failures, so their position is not their iteration
+          r.iteration ?? (chainResult.streaming ? undefined : index + 1),
+          r.success,
+          r.apiLatencyMs,
+          r.wallClockMs,
+          r.scheduleDelayMs,
+          r.retryDelayMs,
+          r.verified,
+          r.attempts,
+          r.timedOut,
+          r.walletAddress,
+          r.signature,
+          r.error,
+          r.errorCategory,
+          r.httpPhases?.connectionReused,
+          r.httpPhases?.phases.dns,
+          r.httpPhases?.phases.connect,
+          r.httpPhases?.phases.tls,
+          r.httpPhases?.phases.ttfb,
+          r.httpPhases?.phases.download,
+          chainResult.message?.id,
+          chainResult.message?.bytes,
+          r.initMs,
+          r.outlier,
+        ]));
+      });
+    }
+  }
+
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * One row per service and chain (plus consolidated and corpus messages), with run metadata columns
+ */
+export function formatStatsCsv(report: RunReport): string {
+  const { metadata } = report;
+  const header = [
+    'timestamp', 'node_version', 'host', 'platform', 'chain_mode', 'iterations',
+    'concurrency', 'rate_per_second', 'service', 'chain', 'operation', 'samples', 'success_count',
+    'error_count', 'success_rate', 'verified_count', 'verification_failures',
+    'mean_ms', 'median_ms', 'p95_ms', 'p99_ms', 'min_ms', 'max_ms', 'std_dev_ms',
+    'throughput', 'timeout_count', 'retry_count', 'untimed_overhead_median_ms', 'timing_warnings',
+    'message', 'message_bytes', 'service_init_ms', 'first_call_ms', 'cold_init_median_ms', 'cold_init_p95_ms',
+    'cold_total_median_ms', 'cold_total_p95_ms', 'trimmed_mean_ms', 'mad_ms', 'outlier_count',
+    'outlier_lower_ms', 'outlier_upper_ms',
+  ];
+  const rows = [csvRow(header)];
+
+  const addRow = (stats: ChainStats, chain: string, service: ServiceStats) => {
+    rows.push(csvRow([
+      metadata.timestamp,
+      metadata.nodeVersion,
+      metadata.host,
+      metadata.platform,
+      metadata.config.chain,
+      metadata.config.iterations,
+      stats.concurrency,
+      stats.ratePerSecond,
+      stats.serviceName,
+      chain,
+      stats.operation,
+      stats.latencies.length,
+      stats.successCount,
+      stats.errorCount,
+      stats.successRate,
+      stats.verifiedCount,
+      stats.verificationFailures,
+      stats.mean,
+      stats.median,
+      stats.p95,
+      stats.p99,
+      stats.min,
+      stats.max,
+      stats.standardDeviation,
+      stats.throughput,
+      stats.timeoutCount,
+      stats.retryCount,
+      stats.timingCheck?.overheadMedian,
+      stats.timingCheck?.warnings.join('; '),
+      stats.message?.id,
+      stats.message?.bytes,
+      service.initMs,
+      service.firstCallMs,
+      stats.coldStart?.initMedian,
+      stats.coldStart?.initP95,
+      stats.coldStart?.totalMedian,
+      stats.coldStart?.totalP95,
+      stats.trimmedMean,
+      stats.mad,
+      stats.outliers.count,
+      stats.outliers.lower,
+      stats.outliers.upper,
+    ]));
+  };
+
+  for (const service of report.stats) {
+    listChainStats(service).forEach(stats => addRow(stats, stats.chain, service));
+    if (service.consolidated) addRow(service.consolidated, 'both', service);
+    service.corpus?.forEach(stats => addRow(stats, stats.chain, service));
+  }
+
+  return rows.join('\n') + '\n';
+}
+
+// ===== MARKDOWN =====
+
+/**
+ * Describe the run settings and environment in one line
+ */
+function describeRunMetadata(metadata: RunMetadata): string {
+  const { config } = metadata;
+  const load = config.ratePerSecond
+    ? `${config.ratePerSecond} req/s`
+    : `concurrency ${config.concurrency ?? 1}`;
+  const ranking = config.rankBy ? `, ranked by ${describeRankingMetric(config.rankBy)}` : '';
+  return [
+    `Run ${metadata.timestamp}`,
+    `${config.chain === 'both' ? 'Ethereum and Solana' : capitalize(config.chain)}, ${describeRunLength(config)}, ${config.warmupIterations ?? 2} warmup, ${load}${ranking}`,
+    `Node ${metadata.nodeVersion} on ${metadata.host} (${metadata.platform})`,
+  ].join(' · ');
+}
+
+/**
+ * Rankings per chain and operation, a detailed table per service and a
+ * run-metadata footer, ready to paste into a pull request or wiki page
+ */
+export function formatMarkdownReport(report: RunReport): string {
+  const sections = ['# Benchmark results'];
+
+  // Chains and operations in the order they were run
+  const seen = new Set<string>();
+  for (const stats of report.stats.flatMap(listChainStats)) {
+    const key = `${stats.chain}/${stats.operation}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const table = formatRankingsMarkdown(report.stats, stats.chain, stats.operation, report.metadata.config.rankBy);
+    sections.push(`## ${describeOperation(stats.chain, stats.operation)}\n\n${table ?? 'No successful calls.'}`);
+  }
+
+  sections.push('## Service details');
+  for (const service of report.stats) {
+    sections.push(`### ${capitalize(service.serviceName)}\n\n${formatServiceStatsMarkdown(service)}`);
+  }
+
+  sections.push(`---\n\n_${describeRunMetadata(report.metadata)}_`);
+  return sections.join('\n\n') + '\n';
+}
+
+// ===== WRITING =====
+
+/**
+ * Write a report to disk
+ *
+ * JSON and Markdown write a single file. CSV writes the per-attempt rows to `filePath`
+ * and the per-chain statistics to a sibling `<name>-stats.csv` file.
+ *
+ * @returns The paths that were written
+ */
+export function writeRunReport(report: RunReport, filePath: string, format: ExportFormat): string[] {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+
+  if (format === 'json') {
+    fs.writeFileSync(filePath, JSON.stringify(report, null, 2) + '\n');
+    return [filePath];
+  }
+
+  if (format === 'markdown') {
+    fs.writeFileSync(filePath, formatMarkdownReport(report));
+    return [filePath];
+  }
+
+  const ext = path.extname(filePath);
+  const statsPath = path.join(
+    path.dirname(filePath),
+    `${path.basename(filePath, ext)}-stats${ext || '.csv'}`
+  );
+
+  fs.writeFileSync(filePath, formatResultsCsv(report));
+  fs.writeFileSync(statsPath, formatStatsCsv(report));
+  return [filePath, statsPath];
+}
@@ -0,0 +1,101 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createRunReport } from './export.js';
+import { compareRuns, listRuns, loadRun, recordRun, saveBaseline, type HistoryEntry } from './history.js';
+import type { BenchmarkResult, ChainBenchmarkResult } from './runner.js';
+import { calculateAllStats } from './statistics.js';
+
+function chainResult(serviceName: string, latencies: number[]): ChainBenchmarkResult {
+  return {
+    chain: 'ethereum',
+    operation: 'message',
+    serviceName,
+    results: latencies.map(apiLatencyMs => ({ success: true, apiLatencyMs, verified: true })),
+    successCount: latencies.length,
+    errorCount: 0,
+    concurrency: 1,
+    durationMs: 1000,
+  };
+}
+
+/**
+ * Record a run of the given services, each with a constant latency
+ */
+function record(timestamp: string, latencies: Record<string, number>): HistoryEntry {
+  const results: BenchmarkResult[] = Object.entries(latencies).map(([serviceName, latencyMs]) => ({
+    serviceName,
+    ethereum: chainResult(serviceName, Array(10).fill(latencyMs)),
+  }));
+  const report = createRunReport({ chain: 'ethereum', iterations: 10 }, results, calculateAllStats(results));
+  report.metadata.timestamp = timestamp;
+  return recordRun(report);
+}
+
+describe('history', () => {
+  let dir: string;
+  let cwd: string;
+
+  // The store lives under .slate in the working directory
+  before(() => {
+    cwd = process.cwd();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slate-history-'));
+    process.chdir(dir);
+  });
+
+  after(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records runs and lists them oldest first', () => {
+    const later = record('2026-01-02T00:00:00.000Z', { privy: 100 });
+    const earlier = record('2026-01-01T00:00:00.000Z', { privy: 100 });
+
+    assert.equal(earlier.id, '2026-01-01T00-00-00-000Z');
+    assert.deepEqual(listRuns().map(run => run.id), [earlier.id, later.id]);
+    assert.equal(loadRun(later.id).stats[0].ethereum!.median, 100);
+  });
+
+  it('keeps summary statistics only, without the per-call latencies', () => {
+    const entry = record('2026-01-02T12:00:00.000Z', { privy: 100 });
+    const stored = loadRun(entry.id).stats[0].ethereum!;
+
+    assert.equal(stored.median, 100);
+    assert.equal(stored.successCount, 10);
+    assert.ok(!('latencies' in stored));
+    assert.ok(!('iterationLatencies' in stored));
+  });
+
+  it('saves and loads baselines by name', () => {
+    const entry = record('2026-01-03T00:00:00.000Z', { privy: 120 });
+    saveBaseline('release', entry);
+
+    assert.equal(loadRun('release').id, entry.id);
+    assert.throws(() => loadRun('missing'), /No baseline or run found for "missing"/);
+  });
+
+  it('rejects baseline names that leave the store', () => {
+    const entry = record('2026-01-04T00:00:00.000Z', { privy: 120 });
+
+    for (const name of ['../escaped', 'nested/name', 'nested\\name', '..', '']) {
+      assert.throws(() => saveBaseline(name, entry), /Invalid baseline or run name/);
+      assert.throws(() => loadRun(name), /Invalid baseline or run name/);
+    }
+    assert.ok(!fs.existsSync(path.join(dir, '.slate', 'escaped.json')));
+  });
+
+  it('flags services that slowed down beyond the threshold', () => {
+    const previous = record('2026-01-05T00:00:00.000Z', { privy: 100, magic: 100, dropped: 100 });
+    const current = record('2026-01-06T00:00:00.000Z', { privy: 105, magic: 150, added: 100 });
+
+    const rows = compareRuns(current, previous, 10);
+    assert.deepEqual(rows.map(row => [row.serviceName, row.medianChangePercent, row.regressed]), [
+      ['privy', 5, false],
+      ['magic', 50, true],
+    ]);
+    assert.equal(compareRuns(current, previous, 60).some(row => row.regressed), false);
+  });
+});
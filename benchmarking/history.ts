@@ -0,0 +1,235 @@
+/**
+ * Run History
+ *
+ * Stores the summary statistics of every run under `.slate/history` and compares
+ * runs against each other (or against a saved baseline) to catch regressions.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { RunMetadata, RunReport } from './export.js';
+import type { SigningOperation } from './runner.js';
+import { getChainStats, listChainStats, type ChainStats, type ServiceStats } from './statistics.js';
+import { capitalize, describeOperation } from './utils.js';
+
+const SLATE_DIR = '.slate';
+const HISTORY_DIR = path.join(SLATE_DIR, 'history');
+const BASELINE_DIR = path.join(SLATE_DIR, 'baselines');
+
+/**
+ * Chain stats as recorded, without the per-call latencies
+ */
+export type ChainSummary = Omit<ChainStats, 'latencies' | 'iterationLatencies'>;
+
+/**
+ * Service stats as recorded, with every chain stats entry reduced to its summary
+ */
+export interface ServiceSummary
+  extends Omit<ServiceStats, 'ethereum' | 'solana' | 'operations' | 'corpus' | 'consolidated'> {
+  ethereum?: ChainSummary;
+  solana?: ChainSummary;
+  operations?: ChainSummary[];
+  corpus?: ChainSummary[];
+  consolidated?: ChainSummary;
+}
+
+/**
+ * A recorded run
+ */
+export interface HistoryEntry {
+  /** Unique, sortable run identifier derived from the run timestamp */
+  id: string;
+  metadata: RunMetadata;
+  stats: ServiceSummary[];
+}
+
+/**
+ * Comparison of one service/chain between two runs
+ */
+export interface ComparisonRow {
+  serviceName: string;
+  chain: 'ethereum' | 'solana';
+  operation: SigningOperation;
+  previousMedian: number;
+  currentMedian: number;
+  medianChangePercent: number;
+  previousP95: number;
+  currentP95: number;
+  p95ChangePercent: number;
+  /** True when median or p95 got slower by more than the threshold */
+  regressed: boolean;
+}
+
+// ===== STORAGE =====
+
+function readEntry(filePath: string): HistoryEntry {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+function writeEntry(filePath: string, entry: HistoryEntry): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(entry, null, 2) + '\n');
+}
+
+function summarizeChain(stats: ChainStats): ChainSummary {
+  const { latencies, iterationLatencies, ...summary } = stats;
+  return summary;
+}
+
+/**
+ * Drop the per-call latencies, which grow with the run length
+ */
+function summarizeService(stats: ServiceStats): ServiceSummary {
+  return {
+    ...stats,
+    ethereum: stats.ethereum && summarizeChain(stats.ethereum),
+    solana: stats.solana && summarizeChain(stats.solana),
+    operations: stats.operations?.map(summarizeChain),
+    corpus: stats.corpus?.map(summarizeChain),
+    consolidated: stats.consolidated && summarizeChain(stats.consolidated),
+  };
+}
+
+/**
+ * Record a run in the history store
+ *
+ * Only summary statistics are kept, so entries stay small however long the run.
+ */
+export function recordRun(report: RunReport): HistoryEntry {
+  const entry: HistoryEntry = {
+    id: report.metadata.timestamp.replace(/[:.]/g, '-'),
+    metadata: report.metadata,
+    stats: report.stats.map(summarizeService),
+  };
+
+  writeEntry(path.join(HISTORY_DIR, `${entry.id}.json`), entry);
+  return entry;
+}
+
+/**
+ * List recorded runs, oldest first
+ */
+export function listRuns(): HistoryEntry[] {
+  if (!fs.existsSync(HISTORY_DIR)) {
+    return [];
+  }
+
+  return fs.readdirSync(HISTORY_DIR)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => readEntry(path.join(HISTORY_DIR, name)));
+}
+
+/**
+ * Check that a baseline name or run id stays inside the history store
+ *
+ * @throws Error if the name is empty or contains path separators or `..`
+ */
+export function checkRunName(name: string): void {
+  if (name === '' || /[\\/]/.test(name) || name.includes('..')) {
+    throw new Error(`Invalid baseline or run name "${name}" (no path separators or "..")`);
+  }
+}
+
+/**
+ * Save a run as a named baseline
+ *
+ * @throws Error if the name is not a plain file name
+ */
+export function saveBaseline(name: string, entry: HistoryEntry): void {
+  checkRunName(name);
+  writeEntry(path.join(BASELINE_DIR, `${name}.json`), entry);
+}
+
+/**
+ * Load a run by baseline name or run id
+ *
+ * @throws Error if the name is not a plain file name, or neither a baseline nor a run with that name exists
+ */
+export function loadRun(ref: string): HistoryEntry {
+  checkRunName(ref);
+  const baselinePath = path.join(BASELINE_DIR, `${ref}.json`);
+  if (fs.existsSync(baselinePath)) {
+    return readEntry(baselinePath);
+  }
+
+  const runPath = path.join(HISTORY_DIR, `${ref}.json`);
+  if (fs.existsSync(runPath)) {
+    return readEntry(runPath);
+  }
+
+  throw new Error(`No baseline or run found for "${ref}"`);
+}
+
+// ===== COMPARISON =====
+
+function percentChange(previous: number, current: number): number {
+  return previous > 0 ? ((current - previous) / previous) * 100 : 0;
+}
+
+/**
+ * Compare two runs per service, chain and operation
+ *
+ * Only service/chain/operation combinations present in both runs (with at least one
+ * successful sample) are compared.
+ *
+ * @param thresholdPercent - Slowdown in median or p95 that counts as a regression
+ */
+export function compareRuns(
+  current: HistoryEntry,
+  previous: HistoryEntry,
+  thresholdPercent: number
+): ComparisonRow[] {
+  const rows: ComparisonRow[] = [];
+
+  for (const currentService of current.stats) {
+    const previousService = previous.stats.find(s => s.serviceName === currentService.serviceName);
+    if (!previousService) continue;
+
+    for (const currentStats of listChainStats(currentService)) {
+      // Runs recorded before operations existed only contain message signing
+      const operation = currentStats.operation ?? 'message';
+      const previousStats = getChainStats(previousService, currentStats.chain, operation);
+      if (!previousStats) continue;
+      if (currentStats.successCount === 0 || previousStats.successCount === 0) continue;
+
+      const medianChangePercent = percentChange(previousStats.median, currentStats.median);
+      const p95ChangePercent = percentChange(previousStats.p95, currentStats.p95);
+
+      rows.push({
+        serviceName: currentService.serviceName,
+        chain: currentStats.chain,
+        operation,
+        previousMedian: previousStats.median,
+        currentMedian: currentStats.median,
+        medianChangePercent,
+        previousP95: previousStats.p95,
+        currentP95: currentStats.p95,
+        p95ChangePercent,
+        regressed: medianChangePercent > thresholdPercent || p95ChangePercent > thresholdPercent,
+      });
+    }
+  }
+
+  return rows;
+}
+
+function formatChange(percent: number): string {
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+/**
+ * Format a comparison for display
+ */
+export function formatComparison(rows: ComparisonRow[], thresholdPercent: number): string {
+  if (rows.length === 0) {
+    return 'No services or chains in common between the two runs.';
+  }
+
+  return rows.map(row => {
+    const marker = row.regressed ? `⚠️  REGRESSION (>${thresholdPercent}%)` : '✓';
+    return `${capitalize(row.serviceName)} (${describeOperation(row.chain, row.operation)}): ${marker}
+  Median: ${row.previousMedian.toFixed(2)}ms → ${row.currentMedian.toFixed(2)}ms (${formatChange(row.medianChangePercent)})
+  P95: ${row.previousP95.toFixed(2)}ms → ${row.currentP95.toFixed(2)}ms (${formatChange(row.p95ChangePercent)})`;
+  }).join('\n\n');
+}
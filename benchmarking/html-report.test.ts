@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRunReport } from './export.js';
+import { renderHtmlReport } from './html-report.js';
+import type { BenchmarkResult, ChainBenchmarkResult } from './runner.js';
+import { calculateAllStats } from './statistics.js';
+import { StreamingRecorder } from './streaming.js';
+
+function chainResult(serviceName: string, latencies: number[]): ChainBenchmarkResult {
+  return {
+    chain: 'ethereum',
+    operation: 'message',
+    serviceName,
+    results: [
+      ...latencies.map(apiLatencyMs => ({ success: true, apiLatencyMs, verified: true })),
+      { success: false, error: 'rate <limited>' },
+    ],
+    successCount: latencies.length,
+    errorCount: 1,
+    concurrency: 1,
+    durationMs: 1000,
+  };
+}
+
+function render(results: BenchmarkResult[]): string {
+  return renderHtmlReport(createRunReport({ chain: 'ethereum', iterations: 5 }, results, calculateAllStats(results)));
+}
+
+describe('renderHtmlReport', () => {
+  const results: BenchmarkResult[] = [
+    { serviceName: 'slow', ethereum: chainResult('slow', [200, 210, 190, 205, 220]) },
+    { serviceName: 'fast <b>', ethereum: chainResult('fast <b>', [100, 110, 90, 105, 120]) },
+  ];
+
+  it('renders a self-contained document with every chart', () => {
+    const html = render(results);
+
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.doesNotMatch(html, /<script|<link|src="http/);
+    assert.doesNotMatch(html, /NaN|undefined/);
+    for (const chart of ['box plots', 'CDF', 'histogram for Slow', 'histogram for Fast &lt;b&gt;', 'timeline']) {
+      assert.ok(html.includes(`aria-label="Ethereum latency ${chart}"`), chart);
+    }
+  });
+
+  it('lists services in ranking order and escapes text', () => {
+    const html = render(results);
+
+    assert.ok(html.indexOf('<td>1</td><td>Fast &lt;b&gt;</td>') < html.indexOf('<td>2</td><td>Slow</td>'));
+    assert.ok(html.includes('rate &lt;limited&gt;'));
+    assert.ok(!html.includes('<b>'));
+  });
+
+  it('leaves out the timeline for streaming runs', () => {
+    const streamed = results.map(r => ({ ...r, ethereum: { ...r.ethereum!, streaming: new StreamingRecorder() } }));
+    const stats = calculateAllStats(results);
+    const html = renderHtmlReport(createRunReport({ chain: 'ethereum', iterations: 5 }, streamed, stats));
+
+    assert.ok(html.includes('latency CDF'));
+    assert.ok(!html.includes('latency timeline'));
+  });
+
+  it('averages long runs into a bounded number of timeline points', () => {
+    const latencies = Array.from({ length: 200_000 }, (_, i) => 100 + (i % 50));
+    const html = render([{ serviceName: 'soak', ethereum: chainResult('soak', latencies) }]);
+
+    const timeline = html.slice(html.indexOf('latency timeline'));
+    const points = timeline.match(/<polyline points="([^"]*)"/)![1].split(' ');
+    assert.equal(points.length, 500);
+    assert.ok(!timeline.includes('<circle'));
+    assert.match(timeline, /Soak iterations \d+-200001: 1 failed, first: rate &lt;limited&gt;/);
+
+    const cdf = html.slice(html.indexOf('latency CDF'));
+    assert.equal(cdf.match(/<polyline [^>]*points="([^"]*)"/)![1].split(' ').length, 1002);
+  });
+});
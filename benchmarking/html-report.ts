@@ -0,0 +1,549 @@
+/**
+ * HTML Report
+ *
+ * Renders a run as a single HTML file with inline SVG charts and no external
+ * assets, so it opens offline and can be attached to evaluation documents:
+ * ranking box plots, overlaid CDFs, per-service latency histograms and a
+ * per-iteration latency timeline for every chain and operation.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { RunReport } from './export.js';
+import { listChainResults, type ChainBenchmarkResult, type SigningOperation, type SigningResult } from './runner.js';
+import {
+  binLatencies,
+  describeRankingMetric,
+  getChainStats,
+  getPercentile,
+  listChainStats,
+  rankServicesByChain,
+  type ChainStats,
+  type ServiceStats,
+} from './statistics.js';
+import { capitalize, describeOperation, describeRunLength, resultLatency } from './utils.js';
+
+/** Series colours, assigned to services in report order */
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+const FAILURE_COLOR = '#b91c1c';
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const HISTOGRAM_WIDTH = 300;
+const HISTOGRAM_HEIGHT = 150;
+const HISTOGRAM_BINS = 24;
+const BOX_ROW_HEIGHT = 28;
+
+/** Points per timeline series; longer runs are averaged into this many */
+const TIMELINE_POINTS = 500;
+
+/** CDFs of more samples than this are drawn through this many evenly spaced percentiles */
+const CDF_POINTS = 1000;
+
+/** Timelines with at most this many iterations also get a dot per iteration */
+const TIMELINE_DOT_LIMIT = 200;
+
+const MARGIN = { top: 12, right: 20, bottom: 36, left: 56 };
+
+/** Extra room on the left of box plots for service names */
+const BOX_LABEL_WIDTH = 110;
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 1000px; padding: 0 1rem; color: #111827; }
+h1 { margin-bottom: 0.25rem; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+h3 { margin: 1.5rem 0 0.5rem; font-size: 1rem; }
+.meta { color: #6b7280; font-size: 0.9rem; }
+.note { color: #6b7280; font-size: 0.85rem; margin: 0.25rem 0; }
+.legend span { display: inline-block; margin-right: 1rem; font-size: 0.9rem; }
+.legend i { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; vertical-align: -0.05rem; border-radius: 2px; }
+.small-multiples { display: flex; flex-wrap: wrap; gap: 1rem; }
+.small-multiples figure { margin: 0; }
+figcaption { font-size: 0.85rem; font-weight: 600; }
+table { border-collapse: collapse; font-size: 0.9rem; }
+th, td { padding: 0.3rem 0.75rem; text-align: right; border-bottom: 1px solid #e5e7eb; }
+th:nth-child(2), td:nth-child(2) { text-align: left; }
+svg text { font-size: 11px; fill: #374151; }
+svg .grid { stroke: #e5e7eb; }
+svg .axis { stroke: #9ca3af; }
+`.trim();
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMs(ms: number): string {
+  return `${ms.toFixed(ms < 10 ? 2 : ms < 100 ? 1 : 0)}ms`;
+}
+
+/** Round SVG coordinates so files stay small */
+function px(value: number): string {
+  return value.toFixed(1);
+}
+
+// ===== SCALES AND AXES =====
+
+/**
+ * Linear mapping from data values to pixels
+ */
+interface Scale {
+  min: number;
+  max: number;
+  toPx: (value: number) => number;
+}
+
+function linearScale(min: number, max: number, fromPx: number, toPx: number): Scale {
+  const span = max > min ? max - min : 1;
+  return { min, max, toPx: value => fromPx + ((value - min) / span) * (toPx - fromPx) };
+}
+
+/**
+ * Round tick positions (1, 2 or 5 times a power of ten) covering `min` to `max`
+ */
+function niceTicks(min: number, max: number, count = 5): number[] {
+  const span = max - min;
+  if (!(span > 0)) return [min];
+
+  const rawStep = span / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rawStep)!;
+
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Upper bound of an axis starting at zero, rounded up to a tick
+ */
+function niceMax(max: number): number {
+  if (!(max > 0)) return 1;
+  const ticks = niceTicks(0, max);
+  const step = ticks.length > 1 ? ticks[1] - ticks[0] : max;
+  return Math.ceil(max / step - 1e-9) * step;
+}
+
+/**
+ * Grid lines, tick labels and axis titles for a chart
+ */
+function renderAxes(
+  x: Scale,
+  y: Scale,
+  options: { width: number; height: number; left: number; xLabel: string; yLabel?: string; yFormat?: (v: number) => string }
+): string {
+  const { width, height, left, xLabel, yLabel, yFormat = String } = options;
+  const bottom = height - MARGIN.bottom;
+  const right = width - MARGIN.right;
+  const parts: string[] = [];
+
+  for (const tick of niceTicks(x.min, x.max)) {
+    const tx = px(x.toPx(tick));
+    parts.push(`<line class="grid" x1="${tx}" y1="${MARGIN.top}" x2="${tx}" y2="${bottom}"/>`);
+    parts.push(`<text x="${tx}" y="${bottom + 14}" text-anchor="middle">${tick}</text>`);
+  }
+  for (const tick of y.max > y.min ? niceTicks(y.min, y.max, 4) : []) {
+    const ty = px(y.toPx(tick));
+    parts.push(`<line class="grid" x1="${left}" y1="${ty}" x2="${right}" y2="${ty}"/>`);
+    parts.push(`<text x="${left - 6}" y="${ty}" text-anchor="end" dominant-baseline="middle">${yFormat(tick)}</text>`);
+  }
+
+  parts.push(`<line class="axis" x1="${left}" y1="${bottom}" x2="${right}" y2="${bottom}"/>`);
+  parts.push(`<text x="${px((left + right) / 2)}" y="${height - 4}" text-anchor="middle">${escapeHtml(xLabel)}</text>`);
+  if (yLabel) {
+    parts.push(
+      `<text transform="translate(12 ${px((MARGIN.top + bottom) / 2)}) rotate(-90)" text-anchor="middle">${escapeHtml(yLabel)}</text>`
+    );
+  }
+  return parts.join('');
+}
+
+function svg(width: number, height: number, label: string, content: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${escapeHtml(label)}">${content}</svg>`;
+}
+
+// ===== CHARTS =====
+
+/**
+ * A service's latencies on one chain/operation, with its colour
+ */
+interface Series {
+  name: string;
+  color: string;
+  /** Sorted latencies of successful calls */
+  latencies: number[];
+}
+
+/**
+ * Horizontal box plots in ranking order: box from p25 to p75, line at the
+ * median, whiskers from p5 to p95
+ */
+function renderBoxPlots(series: Series[], label: string): string {
+  const width = CHART_WIDTH;
+  const height = MARGIN.top + series.length * BOX_ROW_HEIGHT + MARGIN.bottom;
+  const left = MARGIN.left + BOX_LABEL_WIDTH;
+  const x = linearScale(0, niceMax(Math.max(...series.map(s => getPercentile(s.latencies, 95)))), left, width - MARGIN.right);
+  const y = linearScale(0, 0, 0, 0);
+  const parts = [renderAxes(x, y, { width, height, left, xLabel: 'Latency (ms)' })];
+
+  series.forEach((s, index) => {
+    const [p5, p25, median, p75, p95] = [5, 25, 50, 75, 95].map(p => getPercentile(s.latencies, p));
+    const mid = MARGIN.top + index * BOX_ROW_HEIGHT + BOX_ROW_HEIGHT / 2;
+    const top = px(mid - BOX_ROW_HEIGHT * 0.3);
+    const bottom = px(mid + BOX_ROW_HEIGHT * 0.3);
+
+    parts.push(`<text x="${left - 8}" y="${px(mid)}" text-anchor="end" dominant-baseline="middle">${escapeHtml(s.name)}</text>`);
+    parts.push(`<line x1="${px(x.toPx(p5))}" y1="${px(mid)}" x2="${px(x.toPx(p95))}" y2="${px(mid)}" stroke="${s.color}"/>`);
+    for (const whisker of [p5, p95]) {
+      parts.push(`<line x1="${px(x.toPx(whisker))}" y1="${top}" x2="${px(x.toPx(whisker))}" y2="${bottom}" stroke="${s.color}"/>`);
+    }
+    parts.push(
+      `<rect x="${px(x.toPx(p25))}" y="${top}" width="${px(Math.max(1, x.toPx(p75) - x.toPx(p25)))}" ` +
+      `height="${px(BOX_ROW_HEIGHT * 0.6)}" fill="${s.color}" fill-opacity="0.25" stroke="${s.color}">` +
+      `<title>${escapeHtml(s.name)}: p5 ${formatMs(p5)}, p25 ${formatMs(p25)}, median ${formatMs(median)}, ` +
+      `p75 ${formatMs(p75)}, p95 ${formatMs(p95)}</title></rect>`
+    );
+    parts.push(`<line x1="${px(x.toPx(median))}" y1="${top}" x2="${px(x.toPx(median))}" y2="${bottom}" stroke="${s.color}" stroke-width="2.5"/>`);
+  });
+
+  return svg(width, height, `${label} latency box plots`, parts.join(''));
+}
+
+/**
+ * Overlaid cumulative distributions of every service's latency
+ *
+ * The x axis ends at the highest p99 so a few extreme calls do not squash
+ * the curves; the tails run off the right edge.
+ */
+function renderCdf(series: Series[], label: string): string {
+  const width = CHART_WIDTH;
+  const height = CHART_HEIGHT;
+  const x = linearScale(0, niceMax(Math.max(...series.map(s => getPercentile(s.latencies, 99)))), MARGIN.left, width - MARGIN.right);
+  const y = linearScale(0, 1, height - MARGIN.bottom, MARGIN.top);
+  // Clip path ids must be unique within the document
+  const clipId = `clip-${label.toLowerCase().replace(/\W+/g, '-')}`;
+  const parts = [
+    `<defs><clipPath id="${clipId}"><rect x="${MARGIN.left}" y="0" width="${width - MARGIN.left - MARGIN.right}" height="${height}"/></clipPath></defs>`,
+    renderAxes(x, y, {
+      width, height, left: MARGIN.left, xLabel: 'Latency (ms)', yLabel: 'Share of calls',
+      yFormat: v => `${Math.round(v * 100)}%`,
+    }),
+  ];
+
+  for (const s of series) {
+    // Step function: the share of calls at or below each latency
+    const points = [`${px(x.toPx(0))},${px(y.toPx(0))}`];
+    if (s.latencies.length <= CDF_POINTS) {
+      s.latencies.forEach((latency, index) => {
+        points.push(`${px(x.toPx(latency))},${px(y.toPx(index / s.latencies.length))}`);
+        points.push(`${px(x.toPx(latency))},${px(y.toPx((index + 1) / s.latencies.length))}`);
+      });
+    } else {
+      for (let i = 0; i <= CDF_POINTS; i++) {
+        points.push(`${px(x.toPx(getPercentile(s.latencies, (i / CDF_POINTS) * 100)))},${px(y.toPx(i / CDF_POINTS))}`);
+      }
+    }
+    parts.push(
+      `<polyline clip-path="url(#${clipId})" points="${points.join(' ')}" fill="none" stroke="${s.color}" stroke-width="2">` +
+      `<title>${escapeHtml(s.name)}</title></polyline>`
+    );
+  }
+
+  return svg(width, height, `${label} latency CDF`, parts.join(''));
+}
+
+/**
+ * Latency histogram of one service, on bounds shared with the other services
+ */
+function renderHistogram(s: Series, min: number, max: number, maxCount: number, label: string): string {
+  const width = HISTOGRAM_WIDTH;
+  const height = HISTOGRAM_HEIGHT;
+  const x = linearScale(min, max, MARGIN.left, width - MARGIN.right);
+  const y = linearScale(0, maxCount, height - MARGIN.bottom, MARGIN.top);
+  const parts = [renderAxes(x, y, {
+    width, height, left: MARGIN.left, xLabel: 'Latency (ms)', yLabel: 'Calls',
+    yFormat: v => Number.isInteger(v) ? String(v) : '',
+  })];
+
+  for (const bin of binLatencies(s.latencies, HISTOGRAM_BINS, min, max)) {
+    if (bin.count === 0) continue;
+    const top = y.toPx(bin.count);
+    parts.push(
+      `<rect x="${px(x.toPx(bin.start))}" y="${px(top)}" width="${px(Math.max(1, x.toPx(bin.end) - x.toPx(bin.start) - 1))}" ` +
+      `height="${px(y.toPx(0) - top)}" fill="${s.color}">` +
+      `<title>${formatMs(bin.start)}-${formatMs(bin.end)}: ${bin.count} calls</title></rect>`
+    );
+  }
+
+  return svg(width, height, `${label} latency histogram for ${s.name}`, parts.join(''));
+}
+
+/**
+ * A run of consecutive iterations drawn as one timeline point
+ */
+interface TimelinePoint {
+  /** First and last iteration covered, 1-based */
+  first: number;
+  last: number;
+  /** Mean latency of the successful calls, if any */
+  latency?: number;
+  failures: number;
+  /** Error of the first failed call */
+  error?: string;
+}
+
+/**
+ * Average a run's iterations into at most `maxPoints` timeline points
+ */
+function timelinePoints(results: SigningResult[], maxPoints: number): TimelinePoint[] {
+  const pointCount = Math.min(results.length, maxPoints);
+  return Array.from({ length: pointCount }, (_, i) => {
+    const start = Math.floor((i * results.length) / pointCount);
+    const end = Math.floor(((i + 1) * results.length) / pointCount);
+    let sum = 0;
+    let successes = 0;
+    let error: string | undefined;
+    for (const r of results.slice(start, end)) {
+      const latencyMs = resultLatency(r);
+      if (latencyMs !== undefined) {
+        sum += latencyMs;
+        successes++;
+      } else {
+        error ??= r.error ?? 'failed';
+      }
+    }
+    return {
+      first: start + 1,
+      last: end,
+      latency: successes > 0 ? sum / successes : undefined,
+      failures: end - start - successes,
+      error,
+    };
+  });
+}
+
+/**
+ * Latency of every measured iteration in order, failures marked along the top
+ *
+ * Runs longer than TIMELINE_POINTS iterations are averaged into that many points.
+ */
+function renderTimeline(runs: { name: string; color: string; result: ChainBenchmarkResult }[], label: string): string {
+  const width = CHART_WIDTH;
+  const height = CHART_HEIGHT;
+  const series = runs.map(run => ({ ...run, points: timelinePoints(run.result.results, TIMELINE_POINTS) }));
+
+  let iterations = 0;
+  let maxLatency = 0;
+  for (const { result, points } of series) {
+    iterations = Math.max(iterations, result.results.length);
+    for (const point of points) maxLatency = Math.max(maxLatency, point.latency ?? 0);
+  }
+  const x = linearScale(1, Math.max(2, iterations), MARGIN.left, width - MARGIN.right);
+  const y = linearScale(0, niceMax(maxLatency), height - MARGIN.bottom, MARGIN.top);
+  const parts = [renderAxes(x, y, { width, height, left: MARGIN.left, xLabel: 'Iteration', yLabel: 'Latency (ms)' })];
+
+  for (const { name, color, result, points } of series) {
+    const describe = (point: TimelinePoint) => point.first === point.last
+      ? `${escapeHtml(name)} iteration ${point.first}`
+      : `${escapeHtml(name)} iterations ${point.first}-${point.last}`;
+    const line: string[] = [];
+    for (const point of points) {
+      const cx = px(x.toPx((point.first + point.last) / 2));
+      if (point.failures > 0) {
+        const failed = point.first === point.last ? '' : `${point.failures} failed, first: `;
+        parts.push(
+          `<text x="${cx}" y="${MARGIN.top + 4}" text-anchor="middle" style="fill:${FAILURE_COLOR}">×` +
+          `<title>${describe(point)}: ${failed}${escapeHtml(point.error!)}</title></text>`
+        );
+      }
+      if (point.latency !== undefined) {
+        line.push(`${cx},${px(y.toPx(point.latency))}`);
+      }
+    }
+    parts.push(`<polyline points="${line.join(' ')}" fill="none" stroke="${color}" stroke-width="1.5" stroke-opacity="0.8"/>`);
+    if (result.results.length <= TIMELINE_DOT_LIMIT) {
+      for (const point of points) {
+        if (point.latency === undefined) continue;
+        parts.push(
+          `<circle cx="${px(x.toPx(point.first))}" cy="${px(y.toPx(point.latency))}" r="2.5" fill="${color}">` +
+          `<title>${describe(point)}: ${formatMs(point.latency)}</title></circle>`
+        );
+      }
+    }
+  }
+
+  return svg(width, height, `${label} latency timeline`, parts.join(''));
+}
+
+// ===== REPORT =====
+
+function renderLegend(services: ServiceStats[], colorOf: (name: string) => string): string {
+  const items = services.map(s =>
+    `<span><i style="background:${colorOf(s.serviceName)}"></i>${escapeHtml(capitalize(s.serviceName))}</span>`
+  );
+  return `<p class="legend">${items.join('')}</p>`;
+}
+
+/**
+ * Ranking table of one chain/operation
+ *
+ * Trimmed-mean and composite rankings add a column with the value they were ranked by.
+ */
+function renderRankingTable(report: RunReport, chain: 'ethereum' | 'solana', operation: SigningOperation): string {
+  const metric = report.metadata.config.rankBy ?? 'median';
+  const scoreColumn = metric === 'trimmed-mean' ? 'Trimmed mean' : metric === 'composite' ? 'Score' : undefined;
+
+  const rankings = rankServicesByChain(report.stats, chain, operation, metric);
+  const rows = rankings.map(r => {
+    const stats = getChainStats(report.stats.find(s => s.serviceName === r.serviceName)!, chain, operation)!;
+    const rank = r.tiedWithLeader ? `=${r.rank}` : String(r.rank);
+    const score = scoreColumn ? `<td>${metric === 'composite' ? r.score.toFixed(2) : formatMs(r.score)}</td>` : '';
+    return `<tr><td>${rank}</td><td>${escapeHtml(capitalize(r.serviceName))}${r.timingSuspect ? ' ⚠️' : ''}</td>${score}` +
+      `<td>${formatMs(r.median)}</td><td>${formatMs(r.p95)}</td><td>${formatMs(stats.p99)}</td>` +
+      `<td>${r.successRate.toFixed(1)}%</td><td>${stats.successCount}/${stats.iterations}</td>` +
+      `<td>${r.outlierCount}</td></tr>`;
+  });
+
+  // Services without a single successful call are not ranked, but still listed
+  const unranked = report.stats
+    .map(s => getChainStats(s, chain, operation))
+    .filter((s): s is ChainStats => s !== undefined && s.successRate === 0)
+    .map(s => `<tr><td>—</td><td>${escapeHtml(capitalize(s.serviceName))}</td>` +
+      `<td colspan="${scoreColumn ? 4 : 3}">no successful calls</td><td>0.0%</td><td>0/${s.iterations}</td><td>0</td></tr>`);
+
+  return `<table><thead><tr><th>Rank</th><th>Service</th>${scoreColumn ? `<th>${scoreColumn}</th>` : ''}` +
+    '<th>Median</th><th>P95</th><th>P99</th><th>Success</th><th>Calls</th><th>Outliers</th></tr></thead>' +
+    `<tbody>${[...rows, ...unranked].join('')}</tbody></table>`;
+}
+
+/**
+ * Every chart for one chain/operation
+ */
+function renderSection(
+  report: RunReport,
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation,
+  colorOf: (name: string) => string
+): string {
+  const label = describeOperation(chain, operation);
+  const ranked = rankServicesByChain(report.stats, chain, operation, report.metadata.config.rankBy);
+  const parts = [`<h2>${escapeHtml(label)}</h2>`, renderRankingTable(report, chain, operation)];
+
+  if (ranked.length === 0) {
+    return parts.join('\n');
+  }
+
+  // Charts follow the ranking order
+  const series: Series[] = ranked.map(r => ({
+    name: capitalize(r.serviceName),
+    color: colorOf(r.serviceName),
+    latencies: getChainStats(report.stats.find(s => s.serviceName === r.serviceName)!, chain, operation)!.latencies,
+  }));
+
+  parts.push('<h3>Distribution</h3>');
+  parts.push('<p class="note">Box from p25 to p75, thick line at the median, whiskers from p5 to p95.</p>');
+  parts.push(renderBoxPlots(series, label));
+
+  parts.push('<h3>Cumulative distribution</h3>');
+  parts.push(renderCdf(series, label));
+
+  parts.push('<h3>Histograms</h3>');
+  const min = Math.min(...series.map(s => s.latencies[0]));
+  const max = Math.max(...series.map(s => s.latencies[s.latencies.length - 1]));
+  const maxCount = Math.max(...series.flatMap(s => binLatencies(s.latencies, HISTOGRAM_BINS, min, max).map(b => b.count)));
+  parts.push('<div class="small-multiples">' + series.map(s =>
+    `<figure><figcaption>${escapeHtml(s.name)}</figcaption>${renderHistogram(s, min, max, maxCount, label)}</figure>`
+  ).join('') + '</div>');
+
+  // Streaming runs only keep failures, so there is no timeline to draw
+  const runs = ranked
+    .map(r => ({
+      name: capitalize(r.serviceName),
+      color: colorOf(r.serviceName),
+      result: report.results
+        .filter(b => b.serviceName === r.serviceName)
+        .flatMap(listChainResults)
+        .find(c => c.chain === chain && c.operation === operation),
+    }))
+    .filter((run): run is { name: string; color: string; result: ChainBenchmarkResult } =>
+      run.result !== undefined && !run.result.streaming && run.result.results.length > 0);
+
+  if (runs.length > 0) {
+    parts.push('<h3>Timeline</h3>');
+    parts.push(`<p class="note">Latency of each measured iteration in order (runs of more than ${TIMELINE_POINTS} ` +
+      `iterations are averaged into ${TIMELINE_POINTS} points); <span style="color:${FAILURE_COLOR}">×</span> marks a failed call.</p>`);
+    parts.push(renderTimeline(runs, label));
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Describe the run for the report header
+ */
+function describeRun(report: RunReport): string {
+  const { metadata } = report;
+  return [
+    new Date(metadata.timestamp).toUTCString(),
+    `${capitalize(metadata.config.chain)}, ${describeRunLength(metadata.config)}` +
+      (metadata.config.rankBy ? `, ranked by ${describeRankingMetric(metadata.config.rankBy)}` : ''),
+    `${metadata.host} (${metadata.platform}, Node ${metadata.nodeVersion})`,
+  ].map(escapeHtml).join(' · ');
+}
+
+/**
+ * Render a run as a self-contained HTML document
+ */
+export function renderHtmlReport(report: RunReport): string {
+  const colorOf = (name: string) => {
+    const index = report.stats.findIndex(s => s.serviceName === name);
+    return COLORS[Math.max(0, index) % COLORS.length];
+  };
+
+  // Chains and operations in the order they were run
+  const sections = new Map<string, { chain: 'ethereum' | 'solana'; operation: SigningOperation }>();
+  for (const service of report.stats) {
+    for (const stats of listChainStats(service)) {
+      sections.set(`${stats.chain}/${stats.operation}`, { chain: stats.chain, operation: stats.operation });
+    }
+  }
+
+  const body = [
+    '<h1>SLATE benchmark report</h1>',
+    `<p class="meta">${describeRun(report)}</p>`,
+    renderLegend(report.stats, colorOf),
+    ...[...sections.values()].map(({ chain, operation }) => renderSection(report, chain, operation, colorOf)),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SLATE benchmark report - ${escapeHtml(report.metadata.timestamp)}</title>
+<style>
+${STYLE}
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write a run's HTML report to disk
+ */
+export function writeHtmlReport(report: RunReport, filePath: string): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, renderHtmlReport(report));
+}
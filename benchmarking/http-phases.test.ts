@@ -0,0 +1,53 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpTrace } from './http-phases.js';
+
+describe('HttpTrace', () => {
+  let server: http.Server;
+  let url: string;
+
+  before(async () => {
+    server = http.createServer((_, res) => {
+      setTimeout(() => res.end('{"ok":true}'), 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  const tracedFetch = async () => {
+    const trace = new HttpTrace();
+    await trace.run(async () => (await fetch(url)).json());
+    return trace.timings();
+  };
+
+  it('times connection setup for a new connection and skips it when reused', async () => {
+    const first = await tracedFetch();
+    assert.equal(first?.requestCount, 1);
+    assert.equal(first?.connectionReused, false);
+    assert.ok(first?.phases.dns !== undefined);
+    assert.ok(first?.phases.connect !== undefined);
+    assert.equal(first?.phases.tls, undefined); // Plain HTTP
+    assert.ok(first!.phases.ttfb! >= 15);
+    assert.ok(first?.phases.download !== undefined);
+
+    // Give undici a moment to return the connection to the pool
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const second = await tracedFetch();
+    assert.equal(second?.connectionReused, true);
+    assert.equal(second?.phases.connect, undefined);
+    assert.ok(second!.phases.ttfb! >= 15);
+  });
+
+  it('ignores requests made outside the traced call', async () => {
+    const trace = new HttpTrace();
+    await (await fetch(url)).json();
+    assert.equal(trace.timings(), undefined);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * HTTP Phase Tracing
+ *
+ * Optional instrumentation that splits the HTTP time of a signing call into
+ * connection setup (DNS, TCP connect, TLS), time to first byte and body
+ * download. Requests are followed through undici's diagnostics channels, so
+ * it works for any adapter that uses Node's built-in fetch; connection setup
+ * is split using the `dns` and `net` performance entries Node records.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import diagnosticsChannel from 'node:diagnostics_channel';
+import { PerformanceObserver, type PerformanceEntry } from 'node:perf_hooks';
+
+/**
+ * Phases of an HTTP request
+ *
+ * - `dns`: hostname lookup (new connections to a hostname only)
+ * - `connect`: TCP connect (new connections only)
+ * - `tls`: TLS handshake (new HTTPS connections only)
+ * - `ttfb`: from sending the request to receiving the response headers
+ * - `download`: from the response headers to the end of the body
+ */
+export type HttpPhase = 'dns' | 'connect' | 'tls' | 'ttfb' | 'download';
+
+export const HTTP_PHASES: HttpPhase[] = ['dns', 'connect', 'tls', 'ttfb', 'download'];
+
+/**
+ * HTTP timings of one signing call
+ */
+export interface HttpPhaseTimings {
+  /** HTTP requests made during the call */
+  requestCount: number;
+  /** True when every request went over an already open connection */
+  connectionReused: boolean;
+  /** Milliseconds spent in each phase, summed over the call's requests */
+  phases: Partial<Record<HttpPhase, number>>;
+}
+
+/**
+ * Short display name for an HTTP phase
+ */
+export function describeHttpPhase(phase: HttpPhase): string {
+  switch (phase) {
+    case 'dns':
+      return 'DNS';
+    case 'connect':
+      return 'connect';
+    case 'tls':
+      return 'TLS';
+    case 'ttfb':
+      return 'TTFB';
+    case 'download':
+      return 'download';
+  }
+}
+
+/** Performance entries kept for matching against new connections */
+const MAX_PENDING_ENTRIES = 256;
+
+interface RequestTiming {
+  sentAt?: number;
+  headersAt?: number;
+  completedAt?: number;
+}
+
+interface ConnectionTiming {
+  host: string;
+  hostname: string;
+  port: number;
+  secure: boolean;
+  startedAt: number;
+  connectedAt?: number;
+}
+
+/** Trace of the signing call that is currently running, if any */
+const activeTrace = new AsyncLocalStorage<HttpTrace>();
+
+/** Undici request objects of traced calls */
+const requestTimings = new WeakMap<object, RequestTiming>();
+
+/** Recent `dns` and `net` performance entries, oldest first */
+const pendingEntries: PerformanceEntry[] = [];
+
+let subscribed = false;
+
+/**
+ * Subscribe to undici's diagnostics channels and Node's network performance entries
+ *
+ * Subscribers only do work while a traced call is running.
+ */
+function subscribe(): void {
+  if (subscribed) return;
+  subscribed = true;
+
+  diagnosticsChannel.subscribe('undici:request:create', (message: any) => {
+    const trace = activeTrace.getStore();
+    if (!trace) return;
+
+    const timing: RequestTiming = {};
+    requestTimings.set(message.request, timing);
+    trace.requests.push(timing);
+  });
+
+  diagnosticsChannel.subscribe('undici:client:sendHeaders', (message: any) => {
+    const timing = requestTimings.get(message.request);
+    if (timing) timing.sentAt = performance.now();
+  });
+
+  diagnosticsChannel.subscribe('undici:request:headers', (message: any) => {
+    const timing = requestTimings.get(message.request);
+    if (timing) timing.headersAt = performance.now();
+  });
+
+  const complete = (message: any) => {
+    const timing = requestTimings.get(message.request);
+    if (timing) timing.completedAt ??= performance.now();
+  };
+  diagnosticsChannel.subscribe('undici:request:trailers', complete);
+  diagnosticsChannel.subscribe('undici:request:error', complete);
+
+  // A connection is opened on behalf of the request that needed it, so both
+  // connection events run in that request's async context
+  diagnosticsChannel.subscribe('undici:client:beforeConnect', (message: any) => {
+    const trace = activeTrace.getStore();
+    if (!trace) return;
+
+    const { host, hostname, port, protocol } = message.connectParams;
+    const secure = protocol === 'https:';
+    trace.connections.push({
+      host,
+      hostname,
+      port: Number(port) || (secure ? 443 : 80),
+      secure,
+      startedAt: performance.now(),
+    });
+  });
+
+  diagnosticsChannel.subscribe('undici:client:connected', (message: any) => {
+    const timing = activeTrace.getStore()?.connections
+      .find(c => c.host === message.connectParams.host && c.connectedAt === undefined);
+    if (timing) timing.connectedAt = performance.now();
+  });
+
+  new PerformanceObserver(list => {
+    pendingEntries.push(...list.getEntries());
+    pendingEntries.splice(0, pendingEntries.length - MAX_PENDING_ENTRIES);
+  }).observe({ entryTypes: ['dns', 'net'] });
+}
+
+/**
+ * Find and consume the first pending performance entry within a time window
+ */
+function takeEntry(
+  type: string,
+  from: number,
+  to: number,
+  matches: (detail: any) => boolean
+): PerformanceEntry | undefined {
+  const index = pendingEntries.findIndex(entry =>
+    entry.entryType === type &&
+    entry.startTime >= from &&
+    entry.startTime + entry.duration <= to &&
+    matches(entry.detail)
+  );
+  return index === -1 ? undefined : pendingEntries.splice(index, 1)[0];
+}
+
+/**
+ * Add a phase duration to a call's totals
+ */
+function addPhase(phases: Partial<Record<HttpPhase, number>>, phase: HttpPhase, ms: number): void {
+  phases[phase] = (phases[phase] ?? 0) + ms;
+}
+
+/**
+ * Collects the HTTP requests made while running one signing call
+ *
+ * With concurrent calls, a new connection is attributed to the call whose
+ * request opened it, even if another call ends up using it first.
+ */
+export class HttpTrace {
+  readonly requests: RequestTiming[] = [];
+  readonly connections: ConnectionTiming[] = [];
+
+  constructor() {
+    subscribe();
+  }
+
+  /**
+   * Run a function, attributing the HTTP requests it makes to this trace
+   */
+  run<T>(fn: () => T): T {
+    return activeTrace.run(this, fn);
+  }
+
+  /**
+   * Per-phase timings of the traced call
+   *
+   * @returns undefined if no request received a response
+   */
+  timings(): HttpPhaseTimings | undefined {
+    const answered = this.requests.filter(r => r.sentAt !== undefined && r.headersAt !== undefined);
+    if (answered.length === 0) return undefined;
+
+    const phases: Partial<Record<HttpPhase, number>> = {};
+    for (const request of answered) {
+      addPhase(phases, 'ttfb', request.headersAt! - request.sentAt!);
+      if (request.completedAt !== undefined) {
+        addPhase(phases, 'download', request.completedAt - request.headersAt!);
+      }
+    }
+
+    const opened = this.connections.filter(c => c.connectedAt !== undefined);
+    for (const connection of opened) {
+      this.splitConnectionSetup(connection, phases);
+    }
+
+    return {
+      requestCount: this.requests.length,
+      connectionReused: opened.length === 0,
+      phases,
+    };
+  }
+
+  /**
+   * Split a new connection's setup time into DNS, TCP connect and TLS
+   *
+   * Without a matching TCP connect entry, everything after the lookup
+   * (including any TLS handshake) is counted as connect time.
+   */
+  private splitConnectionSetup(connection: ConnectionTiming, phases: Partial<Record<HttpPhase, number>>): void {
+    const { startedAt, hostname, port, secure } = connection;
+    const connectedAt = connection.connectedAt!;
+
+    const lookup = takeEntry('dns', startedAt, connectedAt, detail => detail?.hostname === hostname);
+    const tcp = takeEntry('net', startedAt, connectedAt, detail => detail?.port === port);
+
+    if (lookup) addPhase(phases, 'dns', lookup.duration);
+
+    if (!tcp) {
+      const afterLookup = lookup ? lookup.startTime + lookup.duration : startedAt;
+      addPhase(phases, 'connect', connectedAt - afterLookup);
+      return;
+    }
+
+    addPhase(phases, 'connect', tcp.duration);
+    if (secure) addPhase(phases, 'tls', connectedAt - (tcp.startTime + tcp.duration));
+  }
+}
@@ -0,0 +1,30 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import MockWalletService from '../services/mock/index.js';
+import { STANDARD_ETHEREUM_TRANSACTION } from '../services/index.js';
+
+describe('mock service', () => {
+  const env = { MOCK_LATENCY_DISTRIBUTION: 'constant', MOCK_LATENCY_MS: '20' };
+
+  before(() => Object.assign(process.env, env));
+
+  after(() => {
+    for (const name of Object.keys(env)) delete process.env[name];
+  });
+
+  it('reports the configured constant latency, without the cost of local signing', async () => {
+    const service = new MockWalletService();
+    await service.initialize();
+
+    // The first Ethereum signature and transaction serialization pay for one-off crypto setup
+    const latencies = [
+      (await service.signMessageEthereum('Hello')).apiLatencyMs,
+      (await service.signTransactionEthereum(STANDARD_ETHEREUM_TRANSACTION)).apiLatencyMs,
+      (await service.signMessageSolana('Hello')).apiLatencyMs,
+    ];
+
+    for (const latencyMs of latencies) {
+      assert.ok(latencyMs >= 19 && latencyMs < 25, `${latencyMs}ms is not about 20ms`);
+    }
+  });
+});
@@ -0,0 +1,344 @@
+import { beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { ServiceResult, SignableMessage, WalletService } from '../services/index.js';
+import { runBenchmark, runBenchmarks, type BenchmarkConfig } from './runner.js';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+/**
+ * Ethereum-only fake service that signs for real and can fail on chosen calls
+ */
+class FakeService implements WalletService {
+  calls = 0;
+  lastMessage?: SignableMessage;
+  inFlight = 0;
+  peakInFlight = 0;
+
+  constructor(
+    private options: {
+      failOnCalls?: number[];
+      badSignatureOnCalls?: number[];
+      hangOnCalls?: number[];
+      latencyMs?: number;
+    } = {}
+  ) {}
+
+  async initialize(): Promise<void> {}
+
+  async signMessageEthereum(message: SignableMessage): Promise<ServiceResult> {
+    const call = ++this.calls;
+    this.lastMessage = message;
+    this.inFlight++;
+    this.peakInFlight = Math.max(this.peakInFlight, this.inFlight);
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs ?? 1));
+
+      if (this.options.hangOnCalls?.includes(call)) {
+        await new Promise(() => {}); // Never settles and ignores the abort signal
+      }
+
+      if (this.options.failOnCalls?.includes(call)) {
+        throw new Error(`call ${call} failed`);
+      }
+
+      const signed = this.options.badSignatureOnCalls?.includes(call) ? 'Tampered' : message;
+      return {
+        signature: await account.signMessage({ message: typeof signed === 'string' ? signed : { raw: signed } }),
+        apiLatencyMs: call,
+        walletAddress: account.address,
+      };
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+const baseConfig: BenchmarkConfig = {
+  chain: 'ethereum',
+  iterations: 5,
+  warmupIterations: 2,
+  delayMs: 0,
+};
+
+describe('runBenchmark', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  it('runs warmup iterations but excludes them from results', async () => {
+    const service = new FakeService();
+    const result = await runBenchmark(service, 'fake', baseConfig);
+
+    assert.equal(service.calls, 7);
+    assert.equal(result.ethereum!.results.length, 5);
+    // apiLatencyMs is the call number, so recorded results start after warmup
+    assert.deepEqual(result.ethereum!.results.map(r => r.apiLatencyMs), [3, 4, 5, 6, 7]);
+    assert.ok(result.ethereum!.results.every(r => r.wallClockMs! > 0));
+  });
+
+  it('does not count warmup failures as errors', async () => {
+    const service = new FakeService({ failOnCalls: [1, 2] });
+    const result = await runBenchmark(service, 'fake', baseConfig);
+
+    assert.equal(result.ethereum!.successCount, 5);
+    assert.equal(result.ethereum!.errorCount, 0);
+  });
+
+  it('records failed iterations with their error message', async () => {
+    const service = new FakeService({ failOnCalls: [4, 6] });
+    const result = await runBenchmark(service, 'fake', baseConfig);
+    const chain = result.ethereum!;
+
+    assert.equal(chain.successCount, 3);
+    assert.equal(chain.errorCount, 2);
+    assert.deepEqual(chain.results.map(r => r.success), [true, false, true, false, true]);
+    assert.equal(chain.results[1].error, 'call 4 failed');
+  });
+
+  it('marks signatures that fail verification as unverified', async () => {
+    const service = new FakeService({ badSignatureOnCalls: [3] });
+    const result = await runBenchmark(service, 'fake', baseConfig);
+
+    assert.deepEqual(result.ethereum!.results.map(r => r.verified), [false, true, true, true, true]);
+    assert.equal(result.ethereum!.successCount, 5);
+    assert.equal(result.ethereum!.results[0].errorCategory, 'verification');
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    const service = new FakeService({ latencyMs: 10 });
+    const result = await runBenchmark(service, 'fake', {
+      ...baseConfig,
+      iterations: 12,
+      warmupIterations: 0,
+      concurrency: 3,
+    });
+
+    assert.equal(service.peakInFlight, 3);
+    assert.equal(result.ethereum!.results.length, 12);
+    assert.equal(result.ethereum!.concurrency, 3);
+  });
+
+  it('stops starting iterations once the run duration has elapsed', async () => {
+    const service = new FakeService({ latencyMs: 20 });
+    const result = await runBenchmark(service, 'fake', {
+      ...baseConfig,
+      iterations: 1000,
+      warmupIterations: 0,
+      runDurationMs: 200,
+      summaryIntervalMs: 100,
+    });
+    const chain = result.ethereum!;
+
+    assert.ok(chain.results.length > 1 && chain.results.length < 1000);
+    assert.ok(chain.results.every(r => r.startedAtMs! < 200));
+    assert.equal(chain.summaryIntervalMs, 100);
+  });
+
+  it('keeps only failures and running statistics in streaming mode', async () => {
+    const service = new FakeService({ failOnCalls: [4] });
+    const result = await runBenchmark(service, 'fake', { ...baseConfig, statsMode: 'streaming' });
+    const chain = result.ethereum!;
+
+    assert.equal(chain.successCount, 4);
+    assert.equal(chain.errorCount, 1);
+    assert.deepEqual(chain.results.map(r => r.error), ['call 4 failed']);
+    // Two warmups come first, so the fourth call is the second measured iteration
+    assert.deepEqual(chain.results.map(r => r.iteration), [2]);
+    assert.equal(chain.streaming!.histogram.count, 4);
+  });
+
+  it('gives up on calls that exceed the timeout', async () => {
+    const service = new FakeService({ hangOnCalls: [2] });
+    const result = await runBenchmark(service, 'fake', { ...baseConfig, warmupIterations: 0, timeoutMs: 50 });
+    const chain = result.ethereum!;
+
+    assert.equal(chain.errorCount, 1);
+    assert.equal(chain.results[1].timedOut, true);
+    assert.match(chain.results[1].error!, /Timed out/);
+  });
+
+  it('retries failed calls and records the retried attempts', async () => {
+    const service = new FakeService({ failOnCalls: [1], hangOnCalls: [2] });
+    const result = await runBenchmark(service, 'fake', {
+      ...baseConfig,
+      iterations: 1,
+      warmupIterations: 0,
+      timeoutMs: 50,
+      retry: { maxRetries: 2, backoffMs: 1 },
+    });
+    const [attempt] = result.ethereum!.results;
+
+    assert.equal(attempt.success, true);
+    assert.equal(attempt.attempts, 3);
+    assert.deepEqual(attempt.retriedAttempts!.map(r => r.timedOut), [false, true]);
+    // The timed-out attempt and both backoffs count toward the latency, the final call stays separate
+    assert.equal(attempt.apiLatencyMs, 3);
+    assert.ok(attempt.retryDelayMs! >= 50);
+  });
+
+  it('benchmarks each corpus message separately', async () => {
+    const service = new FakeService();
+    const result = await runBenchmark(service, 'fake', {
+      ...baseConfig,
+      chain: 'both',
+      iterations: 2,
+      warmupIterations: 0,
+      corpus: [
+        { id: 'short', encoding: 'utf8', data: 'héllo' },
+        { id: 'raw', encoding: 'hex', data: '0x00ff10' },
+      ],
+    });
+
+    assert.equal(result.ethereum!.message, undefined);
+    assert.deepEqual(result.corpus!.map(r => [r.chain, r.message]), [
+      ['ethereum', { id: 'short', bytes: 6 }],
+      ['ethereum', { id: 'raw', bytes: 3 }],
+    ]);
+    assert.deepEqual(service.lastMessage, new Uint8Array([0x00, 0xff, 0x10]));
+    assert.ok(result.corpus!.every(r => r.results.length === 2 && r.results.every(s => s.verified)));
+  });
+
+  it('records the first call, including warmups', async () => {
+    const service = new FakeService({ failOnCalls: [1] });
+    const result = await runBenchmark(service, 'fake', baseConfig);
+
+    assert.ok(result.initMs !== undefined && result.initMs >= 0);
+    assert.equal(result.firstCall?.success, false);
+    assert.equal(result.firstCall?.error, 'call 1 failed');
+  });
+
+  it('creates and initializes a fresh instance for every cold iteration', async () => {
+    const instances: FakeService[] = [];
+    const createService = async () => {
+      const instance = new FakeService();
+      instance.initialize = async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      };
+      instances.push(instance);
+      return instance;
+    };
+
+    const service = new FakeService();
+    const result = await runBenchmark(service, 'fake', { ...baseConfig, coldStart: true }, createService);
+
+    // No warmups, and the original instance is only used for initialization
+    assert.equal(service.calls, 0);
+    assert.equal(instances.length, 5);
+    assert.ok(instances.every(instance => instance.calls === 1));
+    assert.ok(result.ethereum!.results.every(r => r.success && r.initMs! >= 4));
+    assert.equal(result.firstCall?.signature, result.ethereum!.results[0].signature);
+  });
+
+  it('records failed cold initialization as a failed iteration', async () => {
+    let created = 0;
+    const createService = async () => {
+      const instance = new FakeService();
+      if (++created === 2) {
+        instance.initialize = async () => {
+          throw new Error('auth failed');
+        };
+      }
+      return instance;
+    };
+
+    const result = await runBenchmark(new FakeService(), 'fake', { ...baseConfig, coldStart: true }, createService);
+    assert.equal(result.ethereum!.errorCount, 1);
+    assert.equal(result.ethereum!.results[1].error, 'auth failed');
+    assert.ok(result.ethereum!.results[1].initMs !== undefined);
+  });
+
+  it('needs a service factory in cold mode', async () => {
+    await assert.rejects(
+      runBenchmark(new FakeService(), 'fake', { ...baseConfig, coldStart: true }),
+      /Cold mode needs a service factory/
+    );
+  });
+
+  it('skips chains the service does not support', async () => {
+    const result = await runBenchmark(new FakeService(), 'fake', { ...baseConfig, chain: 'both' });
+
+    assert.ok(result.ethereum);
+    assert.equal(result.solana, undefined);
+  });
+});
+
+describe('runBenchmarks', () => {
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  it('skips services that fail to initialize', async () => {
+    const broken = new FakeService();
+    broken.initialize = async () => {
+      throw new Error('missing credentials');
+    };
+
+    const services = new Map<string, WalletService>([
+      ['broken', broken],
+      ['working', new FakeService()],
+    ]);
+    const results = await runBenchmarks(services, baseConfig);
+
+    assert.deepEqual(results.map(r => r.serviceName), ['working']);
+  });
+
+  it('applies per-service overrides and custom messages', async () => {
+    const a = new FakeService();
+    const services = new Map<string, WalletService>([
+      ['a', a],
+      ['b', new FakeService()],
+    ]);
+    const results = await runBenchmarks(services, {
+      ...baseConfig,
+      messages: { ethereum: 'Custom benchmark message' },
+      serviceOverrides: { b: { iterations: 2 } },
+    });
+
+    assert.deepEqual(results.map(r => r.ethereum!.results.length), [5, 2]);
+    assert.equal(a.lastMessage, 'Custom benchmark message');
+    assert.ok(results.every(r => r.ethereum!.results.every(result => result.verified)));
+  });
+
+  it('interleaves single calls across services in round-robin order', async () => {
+    const calls: string[] = [];
+    const tracked = (name: string) => {
+      const service = new FakeService();
+      const sign = service.signMessageEthereum.bind(service);
+      service.signMessageEthereum = async message => {
+        calls.push(name);
+        return sign(message);
+      };
+      return service;
+    };
+
+    const services = new Map<string, WalletService>([['a', tracked('a')], ['b', tracked('b')]]);
+    const results = await runBenchmarks(services, {
+      ...baseConfig,
+      iterations: 3,
+      warmupIterations: 1,
+      schedule: 'round-robin',
+      serviceOverrides: { b: { iterations: 2 } },
+    });
+
+    // One warmup round, then measured rounds rotating who goes first until each slot is done
+    assert.deepEqual(calls, ['a', 'b', 'a', 'b', 'b', 'a', 'a']);
+    assert.deepEqual(results.map(r => r.serviceName), ['a', 'b']);
+    assert.deepEqual(results.map(r => r.ethereum!.results.length), [3, 2]);
+    assert.ok(results.every(r => r.ethereum!.results.every(result => result.verified)));
+    assert.ok(results.every(r => r.firstCall?.success));
+    // Calls never overlap, so the slots' busy times fit within the run's wall time
+    const [a, b] = results.map(r => r.ethereum!);
+    assert.ok(a.busyMs! > 0 && b.busyMs! > 0);
+    assert.ok(a.busyMs! + b.busyMs! <= Math.max(a.durationMs, b.durationMs) + 1);
+  });
+
+  it('rejects interleaved schedules combined with concurrency', async () => {
+    const services = new Map<string, WalletService>([['a', new FakeService()]]);
+    await assert.rejects(
+      runBenchmarks(services, { ...baseConfig, schedule: 'shuffled', serviceOverrides: { a: { concurrency: 2 } } }),
+      /cannot be combined with concurrency or rate/
+    );
+  });
+});
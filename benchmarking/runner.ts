@@ -4,10 +4,84 @@
  * Executes signing benchmarks on wallet services and collects timing data.
  */
 
-import type { WalletService, ServiceResult } from '../services/index.js';
-import { STANDARD_ETHEREUM_MESSAGE, STANDARD_SOLANA_MESSAGE } from '../services/index.js';
-import { capitalize, sleep } from './utils.js';
-import { verifyEthereumSignature, verifySolanaSignature, type VerificationResult } from './verification.js';
+import type { WalletService, ServiceResult, SignableMessage, SignOptions } from '../services/index.js';
+import {
+  STANDARD_ETHEREUM_MESSAGE,
+  STANDARD_ETHEREUM_TRANSACTION,
+  STANDARD_ETHEREUM_TYPED_DATA,
+  STANDARD_SOLANA_MESSAGE,
+  STANDARD_SOLANA_TRANSFER,
+} from '../services/index.js';
+import { corpusPayload, payloadSize, type CorpusMessage } from './corpus.js';
+import { classifyError, type ErrorCategory } from './errors.js';
+import { HttpTrace, type HttpPhaseTimings } from './http-phases.js';
+import { formatIntervalStats, summarizeWindow, type IntervalStats, type RankingMetric } from './statistics.js';
+import { StreamingRecorder } from './streaming.js';
+import { capitalize, describeOperation, formatDuration, resultLatency, sleep, type Log } from './utils.js';
+import {
+  verifyEthereumSignature,
+  verifyEthereumTransaction,
+  verifyEthereumTypedDataSignature,
+  verifySolanaSignature,
+  verifySolanaTransaction,
+  type VerificationResult,
+} from './verification.js';
+
+/**
+ * Signing operations that can be benchmarked
+ *
+ * - `message`: plain message signing (personal_sign on Ethereum)
+ * - `typed-data`: EIP-712 typed data (Ethereum only)
+ * - `transaction`: sign (but never broadcast) a standard transaction
+ */
+export type SigningOperation = 'message' | 'typed-data' | 'transaction';
+
+export const SIGNING_OPERATIONS: SigningOperation[] = ['message', 'typed-data', 'transaction'];
+
+/**
+ * How latency statistics are collected
+ *
+ * - `exact`: keep every signing result and compute exact percentiles
+ * - `streaming`: fold results into a fixed-size histogram as they arrive
+ */
+export type StatsMode = 'exact' | 'streaming';
+
+export const STATS_MODES: StatsMode[] = ['exact', 'streaming'];
+
+/**
+ * Order in which signing calls are made
+ *
+ * - `sequential`: each service and chain/operation runs to completion in turn
+ * - `round-robin`: one call per service and chain/operation at a time,
+ *   rotating which goes first each round
+ * - `shuffled`: like round-robin, but each round is in random order
+ *
+ * Interleaving spreads network conditions and provider-side load across all
+ * services evenly, instead of letting whoever ran during a bad minute look slow.
+ */
+export type ScheduleMode = 'sequential' | 'round-robin' | 'shuffled';
+
+export const SCHEDULE_MODES: ScheduleMode[] = ['sequential', 'round-robin', 'shuffled'];
+
+/** Per-call timeout used when the config does not set one */
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Retry policy for failed signing calls
+ *
+ * Failed or timed-out calls are retried up to `maxRetries` times, waiting
+ * `backoffMs` before the first retry and doubling the wait each time.
+ * Verification failures are never retried.
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  backoffMs: number;
+}
+
+/**
+ * Creates a fresh, uninitialized instance of a service (used by cold mode)
+ */
+export type ServiceFactory = () => Promise<WalletService>;
 
 /**
  * Configuration for a benchmark run
@@ -16,26 +90,154 @@ export interface BenchmarkConfig {
   /** Which chain(s) to bencwhmark */
   chain: 'ethereum' | 'solana' | 'both';
 
-  /** Number of signing iterations to perform */
+  /** Number of signing iterations to perform (upper bound when runDurationMs is set) */
   iterations: number;
 
+  /**
+   * Time budget per chain/operation in milliseconds (duration mode)
+   *
+   * When set, signing continues until the budget runs out or `iterations`
+   * is reached, whichever comes first.
+   */
+  runDurationMs?: number;
+
+  /** Print a rolling summary and record per-interval statistics every N milliseconds */
+  summaryIntervalMs?: number;
+
   /** Number of warmup iterations (not included in results) */
   warmupIterations?: number;
 
   /** Delay between requests in milliseconds */
   delayMs?: number;
+
+  /** Number of signing requests kept in flight at once (default: 1) */
+  concurrency?: number;
+
+  /**
+   * Target request rate in requests per second (open-loop mode)
+   *
+   * When set, requests are dispatched on a fixed schedule regardless of how
+   * long earlier calls take, and `concurrency`/`delayMs` are ignored.
+   */
+  ratePerSecond?: number;
+
+  /** Signing operations to benchmark on each chain (default: ['message']) */
+  operations?: SigningOperation[];
+
+  /** Messages signed by the `message` operation (default: the standard test messages) */
+  messages?: { ethereum?: string; solana?: string };
+
+  /**
+   * Messages signed one after another on each chain, each benchmarked
+   * separately, to measure latency against payload size and content
+   */
+  corpus?: CorpusMessage[];
+
+  /**
+   * Per-call timeout in milliseconds (default: DEFAULT_TIMEOUT_MS)
+   *
+   * The call's AbortSignal is aborted and the attempt counts as timed out.
+   */
+  timeoutMs?: number;
+
+  /** Retry failed calls (default: no retries) */
+  retry?: RetryPolicy;
+
+  /**
+   * How latency statistics are collected (default: exact)
+   *
+   * Streaming mode uses constant memory per chain/operation, at the cost of
+   * approximate percentiles and not keeping successful results.
+   */
+  statsMode?: StatsMode;
+
+  /**
+   * Break the HTTP time of each call into DNS, connect, TLS, time to first
+   * byte and download (adapters using Node's built-in fetch only)
+   */
+  httpPhases?: boolean;
+
+  /**
+   * Cold mode: create a fresh service instance and initialize it before
+   * every measured iteration. Instances share the process's connection
+   * pools, so this measures client setup, not a new process's first TLS
+   * handshake. Warmups are skipped. Needs a service factory.
+   */
+  coldStart?: boolean;
+
+  /**
+   * Order of signing calls across services (default: sequential)
+   *
+   * Interleaved schedules make one call at a time, so they cannot be
+   * combined with `concurrency` or `ratePerSecond`.
+   */
+  schedule?: ScheduleMode;
+
+  /** Statistic services are ranked by in the results and reports (default: median) */
+  rankBy?: RankingMetric;
+
+  /** Settings that differ for individual services, keyed by service name */
+  serviceOverrides?: Record<string, ServiceOverrides>;
 }
 
+/**
+ * Per-service changes to a benchmark config
+ */
+export type ServiceOverrides = Partial<Omit<BenchmarkConfig, 'chain' | 'schedule' | 'rankBy' | 'serviceOverrides'>>;
+
 /**
  * Result from a single signing operation
  */
 export interface SigningResult {
   success: boolean;
+  /** 1-based measured iteration the result belongs to */
+  iteration?: number;
   signature?: string;
+  /** Latency of the API call as measured by the adapter */
   apiLatencyMs?: number;
+  /** Latency of the whole signing call as measured by the runner (cross-check for apiLatencyMs) */
+  wallClockMs?: number;
   walletAddress?: string;
+  /** Error message of a failed attempt, or why a returned signature failed verification */
   error?: string;
+  /** Category of `error` (`verification` for signatures that failed verification) */
+  errorCategory?: ErrorCategory;
   verified?: boolean;
+  /**
+   * Time between the scheduled send time and the actual dispatch in
+   * milliseconds (open-loop mode only). Counted as part of the latency so
+   * queueing on our side is not hidden from the percentiles.
+   */
+  scheduleDelayMs?: number;
+  /**
+   * Time from the first attempt's dispatch to the final one's, spent on
+   * failed attempts and backoff (retried calls only). Counted as part of the
+   * latency so retries cannot make a flaky provider look faster.
+   */
+  retryDelayMs?: number;
+  /** When the attempt started, in milliseconds since the measured iterations began */
+  startedAtMs?: number;
+  /** Whether the final call hit the per-call timeout */
+  timedOut?: boolean;
+  /** Number of calls made, including retries */
+  attempts?: number;
+  /** Calls that failed and were retried; `apiLatencyMs` covers only the final call */
+  retriedAttempts?: RetriedAttempt[];
+  /** HTTP phase timings of the final call (when `httpPhases` is enabled) */
+  httpPhases?: HttpPhaseTimings;
+  /** Time the fresh instance took to be created and initialized (cold mode only; not part of the latency) */
+  initMs?: number;
+  /** Whether the latency lies outside the chain's outlier range (set in exports; successful calls only) */
+  outlier?: boolean;
+}
+
+/**
+ * A failed call that was followed by a retry
+ */
+export interface RetriedAttempt {
+  error: string;
+  errorCategory: ErrorCategory;
+  timedOut: boolean;
 }
 
 /**
@@ -43,10 +245,35 @@ export interface SigningResult {
  */
 export interface ChainBenchmarkResult {
   chain: 'ethereum' | 'solana';
+  operation: SigningOperation;
   serviceName: string;
+  /** Every measured attempt (exact mode) or the first few failures (streaming mode) */
   results: SigningResult[];
   successCount: number;
   errorCount: number;
+  /** Concurrency level the measured iterations ran at (peak in flight in open-loop mode) */
+  concurrency: number;
+  /** Target request rate in open-loop mode */
+  ratePerSecond?: number;
+  /** Wall-clock duration of the measured iterations in milliseconds */
+  durationMs: number;
+  /** Time spent on this slot's own calls and delays when interleaved with other slots */
+  busyMs?: number;
+  /** Interval used for per-interval statistics, if any */
+  summaryIntervalMs?: number;
+  /** Running statistics when collected in streaming mode */
+  streaming?: StreamingRecorder;
+  /** Corpus message that was signed (corpus results only) */
+  message?: MessageInfo;
+}
+
+/**
+ * Corpus message a result belongs to
+ */
+export interface MessageInfo {
+  id: string;
+  /** Payload size in bytes */
+  bytes: number;
 }
 
 /**
@@ -54,173 +281,704 @@ export interface ChainBenchmarkResult {
  */
 export interface BenchmarkResult {
   serviceName: string;
+  /** Time initialize() took before the first call, in milliseconds */
+  initMs?: number;
+  /** First signing call after initialization, warmup or not */
+  firstCall?: SigningResult;
+  /** Ethereum message signing */
   ethereum?: ChainBenchmarkResult;
+  /** Solana message signing */
   solana?: ChainBenchmarkResult;
+  /** Other signing operations (typed data, transactions) */
+  operations?: ChainBenchmarkResult[];
+  /** Message signing for each corpus message, in corpus order per chain */
+  corpus?: ChainBenchmarkResult[];
+}
+
+/**
+ * List every chain/operation result of a service
+ */
+export function listChainResults(result: BenchmarkResult): ChainBenchmarkResult[] {
+  return [result.ethereum, result.solana, ...(result.operations ?? [])]
+    .filter((r): r is ChainBenchmarkResult => r !== undefined);
 }
 
 /**
- * Chain-specific methods for signing and verification
+ * Operation-specific methods for signing and verification
  */
-interface ChainMethods {
-  message: string;
-  sign: (service: WalletService, message: string) => Promise<ServiceResult>;
-  verify: (message: string, signature: string, address: string) => Promise<VerificationResult>;
+interface OperationMethods {
+  isSupported: (service: WalletService) => boolean;
+  sign: (service: WalletService, options: SignOptions) => Promise<ServiceResult>;
+  verify: (signature: string, address: string) => Promise<VerificationResult>;
 }
 
 /**
- * Get chain-specific methods
+ * Methods for signing and verifying a specific message
  */
-function getChainMethods(chain: 'ethereum' | 'solana'): ChainMethods {
+function messageMethods(chain: 'ethereum' | 'solana', message: SignableMessage): OperationMethods {
   if (chain === 'ethereum') {
     return {
-      message: STANDARD_ETHEREUM_MESSAGE,
-      sign: (s, m) => s.signMessageEthereum!(m),
-      verify: verifyEthereumSignature,
+      isSupported: s => typeof s.signMessageEthereum === 'function',
+      sign: (s, options) => s.signMessageEthereum!(message, options),
+      verify: (sig, addr) => verifyEthereumSignature(message, sig, addr),
     };
   }
+
   return {
-    message: STANDARD_SOLANA_MESSAGE,
-    sign: (s, m) => s.signMessageSolana!(m),
-    verify: verifySolanaSignature,
+    isSupported: s => typeof s.signMessageSolana === 'function',
+    sign: (s, options) => s.signMessageSolana!(message, options),
+    verify: (sig, addr) => verifySolanaSignature(message, sig, addr),
   };
 }
 
 /**
- * Run benchmark for a single service
+ * Get operation-specific methods
+ *
+ * @returns undefined if the operation does not exist on this chain
  */
-export async function runBenchmark(
+function getOperationMethods(
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation,
+  messages: BenchmarkConfig['messages'] = {}
+): OperationMethods | undefined {
+  if (chain === 'ethereum') {
+    switch (operation) {
+      case 'message':
+        return messageMethods(chain, messages.ethereum ?? STANDARD_ETHEREUM_MESSAGE);
+      case 'typed-data':
+        return {
+          isSupported: s => typeof s.signTypedDataEthereum === 'function',
+          sign: (s, options) => s.signTypedDataEthereum!(STANDARD_ETHEREUM_TYPED_DATA, options),
+          verify: (sig, addr) => verifyEthereumTypedDataSignature(STANDARD_ETHEREUM_TYPED_DATA, sig, addr),
+        };
+      case 'transaction':
+        return {
+          isSupported: s => typeof s.signTransactionEthereum === 'function',
+          sign: (s, options) => s.signTransactionEthereum!(STANDARD_ETHEREUM_TRANSACTION, options),
+          verify: (tx, addr) => verifyEthereumTransaction(STANDARD_ETHEREUM_TRANSACTION, tx, addr),
+        };
+    }
+  }
+
+  switch (operation) {
+    case 'message':
+      return messageMethods(chain, messages.solana ?? STANDARD_SOLANA_MESSAGE);
+    case 'transaction':
+      return {
+        isSupported: s => typeof s.signTransactionSolana === 'function',
+        sign: (s, options) => s.signTransactionSolana!(STANDARD_SOLANA_TRANSFER, options),
+        verify: (tx, addr) => verifySolanaTransaction(STANDARD_SOLANA_TRANSFER, tx, addr),
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Whether a service implements an operation on a chain
+ */
+export function supportsOperation(
+  service: WalletService,
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation
+): boolean {
+  return getOperationMethods(chain, operation)?.isSupported(service) ?? false;
+}
+
+/**
+ * A chain/operation (or corpus message) to benchmark on a service
+ */
+interface BenchmarkSlot {
+  chain: 'ethereum' | 'solana';
+  operation: SigningOperation;
+  /** Corpus message to sign (corpus slots only) */
+  message?: CorpusMessage;
+  methods: OperationMethods;
+  /** Display name, e.g. "Ethereum typed data" */
+  label: string;
+}
+
+/**
+ * Work out what to benchmark on a service, logging what it does not support
+ */
+function planSlots(service: WalletService, displayName: string, config: BenchmarkConfig, log: Log): BenchmarkSlot[] {
+  const slots: BenchmarkSlot[] = [];
+  const chains: ('ethereum' | 'solana')[] = config.chain === 'both'
+    ? ['ethereum', 'solana']
+    : [config.chain];
+  const operations = config.operations ?? ['message'];
+
+  for (const chain of chains) {
+    for (const operation of operations) {
+      // Skip operations that don't exist on this chain (e.g. typed data on Solana)
+      const methods = getOperationMethods(chain, operation, config.messages);
+      if (!methods) continue;
+
+      const label = describeOperation(chain, operation);
+
+      // Check if service supports this operation
+      if (!methods.isSupported(service)) {
+        log(`${displayName} does not support ${label}, skipping`);
+        continue;
+      }
+
+      slots.push({ chain, operation, methods, label });
+    }
+
+    // Message corpus: benchmark each message separately to get a latency curve
+    if (!config.corpus?.length) continue;
+    if (!supportsOperation(service, chain, 'message')) {
+      log(`${displayName} does not support ${capitalize(chain)} message signing, skipping corpus`);
+      continue;
+    }
+    for (const message of config.corpus) {
+      slots.push({
+        chain,
+        operation: 'message',
+        message,
+        methods: messageMethods(chain, corpusPayload(message)),
+        label: `${capitalize(chain)} "${message.id}" (${payloadSize(message)} bytes)`,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * File a chain result under its operation, or with the corpus results
+ */
+function addChainResult(result: BenchmarkResult, chainResult: ChainBenchmarkResult): void {
+  if (chainResult.message) {
+    (result.corpus ??= []).push(chainResult);
+  } else if (chainResult.operation === 'message') {
+    result[chainResult.chain] = chainResult;
+  } else {
+    (result.operations ??= []).push(chainResult);
+  }
+}
+
+/**
+ * Call initialize(), giving up after `timeoutMs`
+ *
+ * @returns How long initialization took in milliseconds
+ */
+async function initializeWithTimeout(service: WalletService, timeoutMs: number): Promise<number> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`initialize() timed out after ${formatDuration(timeoutMs)}`)), timeoutMs);
+  });
+
+  const start = performance.now();
+  try {
+    await Promise.race([service.initialize(), timeout]);
+    return performance.now() - start;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Initialize a service, logging the outcome
+ *
+ * @returns How long initialization took in milliseconds
+ * @throws Error if initialization fails
+ */
+async function initializeService(
   service: WalletService,
   serviceName: string,
-  config: BenchmarkConfig
-): Promise<BenchmarkResult> {
+  config: BenchmarkConfig,
+  log: Log
+): Promise<number> {
   const displayName = capitalize(serviceName);
-  console.log(`\n📈 Benchmarking ${displayName}...`);
+  log(`\n📈 Benchmarking ${displayName}...`);
   try {
-    await service.initialize();
-    console.log(`✅ ${displayName} initialized\n`);
+    const initMs = await initializeWithTimeout(service, config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    log(`✅ ${displayName} initialized in ${initMs.toFixed(0)}ms\n`);
+    return initMs;
   } catch (error: any) {
-    console.log(`❌ ${displayName} initialization failed: ${error.message}`);
+    log(`❌ ${displayName} initialization failed: ${error.message}`);
     throw error;
   }
+}
+
+/**
+ * Run benchmark for a single service
+ */
+export async function runBenchmark(
+  service: WalletService,
+  serviceName: string,
+  config: BenchmarkConfig,
+  createService?: ServiceFactory,
+  log: Log = console.log
+): Promise<BenchmarkResult> {
+  checkColdStart(config, createService);
+  const displayName = capitalize(serviceName);
 
   const result: BenchmarkResult = {
     serviceName,
+    initMs: await initializeService(service, serviceName, config, log),
   };
 
-  // Run Ethereum benchmark if requested
-  if (config.chain === 'ethereum' || config.chain === 'both') {
-    console.log(`Running Ethereum benchmark for ${displayName}...`);
-    result.ethereum = await runChainBenchmark(
-      service,
-      serviceName,
-      'ethereum',
-      config
-    );
-    console.log('');
+  for (const slot of planSlots(service, displayName, config, log)) {
+    log(`Running ${slot.label} benchmark for ${displayName}...`);
+    addChainResult(result, await runChainBenchmark(service, result, slot, config, log, createService));
+    log('');
+  }
+
+  return result;
+}
+
+/**
+ * Make one signing call, giving up after `timeoutMs`
+ *
+ * The call's AbortSignal is aborted on timeout. Services that ignore the
+ * signal are no longer waited for, so a hung provider cannot stall the run.
+ * Successful calls also report the wall-clock time the harness measured,
+ * and the HTTP phase timings when `trace` is given.
+ */
+async function signWithTimeout(
+  service: WalletService,
+  methods: OperationMethods,
+  timeoutMs: number,
+  trace?: HttpTrace
+): Promise<
+  | { result: ServiceResult; wallClockMs: number; httpPhases?: HttpPhaseTimings }
+  | { error: string; errorCategory: ErrorCategory; timedOut: boolean }
+> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Timed out after ${formatDuration(timeoutMs)}`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    // Harness-side timing of the whole call, to cross-check the adapter's own measurement
+    const callStart = performance.now();
+    const sign = () => methods.sign(service, { signal: controller.signal });
+    const result = await Promise.race([trace ? trace.run(sign) : sign(), timeout]);
+    return { result, wallClockMs: performance.now() - callStart, httpPhases: trace?.timings() };
+  } catch (error: any) {
+    const timedOut = controller.signal.aborted;
+    return { error: error.message, errorCategory: classifyError(error, timedOut), timedOut };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sign and verify a single message, logging the outcome
+ *
+ * Failed calls are retried according to the config's retry policy.
+ */
+async function runIteration(
+  service: WalletService,
+  methods: OperationMethods,
+  label: string,
+  config: BenchmarkConfig,
+  log: Log,
+  scheduledAt?: number,
+  logSuccess = true
+): Promise<SigningResult> {
+  // Open-loop mode: measure how late we are relative to the schedule
+  const scheduleDelayMs = scheduledAt !== undefined
+    ? Math.max(0, performance.now() - scheduledAt)
+    : undefined;
+
+  const maxAttempts = 1 + (config.retry?.maxRetries ?? 0);
+  const retriedAttempts: RetriedAttempt[] = [];
+  const firstDispatch = performance.now();
+
+  for (let attempt = 1; ; attempt++) {
+    const retryDelayMs = attempt > 1 ? performance.now() - firstDispatch : undefined;
+
+    // Call signing method
+    const trace = config.httpPhases ? new HttpTrace() : undefined;
+    const call = await signWithTimeout(service, methods, config.timeoutMs ?? DEFAULT_TIMEOUT_MS, trace);
+
+    if ('error' in call) {
+      if (attempt < maxAttempts) {
+        log(`  ${label}: ↻ ${call.error} (retry ${attempt}/${maxAttempts - 1})`);
+        retriedAttempts.push({ error: call.error, errorCategory: call.errorCategory, timedOut: call.timedOut });
+        await sleep(config.retry!.backoffMs * 2 ** (attempt - 1));
+        continue;
+      }
+
+      // Display error
+      log(`  ${label}: ❌ ${call.error}`);
+
+      return {
+        success: false,
+        error: call.error,
+        errorCategory: call.errorCategory,
+        scheduleDelayMs,
+        retryDelayMs,
+        timedOut: call.timedOut,
+        attempts: attempt,
+        retriedAttempts: retriedAttempts.length > 0 ? retriedAttempts : undefined,
+      };
+    }
+
+    const serviceResult = call.result;
+    const result: SigningResult = {
+      success: true,
+      signature: serviceResult.signature,
+      apiLatencyMs: serviceResult.apiLatencyMs,
+      wallClockMs: call.wallClockMs,
+      walletAddress: serviceResult.walletAddress,
+      scheduleDelayMs,
+      retryDelayMs,
+      attempts: attempt,
+      retriedAttempts: retriedAttempts.length > 0 ? retriedAttempts : undefined,
+      httpPhases: call.httpPhases,
+    };
+
+    // Verify signature (NOT TIMED - always verify)
+    const verifyResult = await methods.verify(serviceResult.signature, serviceResult.walletAddress);
+
+    if (!verifyResult.valid) {
+      log(`  ⚠️  Signature verification failed: ${verifyResult.error}`);
+    }
+
+    // Display timing for each iteration
+    if (logSuccess) {
+      const retries = attempt > 1 ? ` (after ${attempt - 1} ${attempt === 2 ? 'retry' : 'retries'})` : '';
+      log(`  ${label}: ${resultLatency(result)!.toFixed(2)}ms ✓${retries}`);
+    }
+
+    return {
+      ...result,
+      verified: verifyResult.valid,
+      error: verifyResult.valid ? undefined : verifyResult.error,
+      errorCategory: verifyResult.valid ? undefined : 'verification',
+    };
+  }
+}
+
+/**
+ * Create and initialize a fresh instance, then sign with it (cold mode)
+ *
+ * Creation and initialization are timed separately from the signing call,
+ * so `apiLatencyMs` stays comparable with warm runs.
+ */
+async function runColdIteration(
+  createService: ServiceFactory,
+  methods: OperationMethods,
+  label: string,
+  config: BenchmarkConfig,
+  log: Log,
+  scheduledAt?: number,
+  logSuccess = true
+): Promise<SigningResult> {
+  const start = performance.now();
+  let service: WalletService;
+  try {
+    service = await createService();
+    await initializeWithTimeout(service, config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  } catch (error: any) {
+    log(`  ${label}: ❌ ${error.message}`);
+    return {
+      success: false,
+      error: error.message,
+      errorCategory: classifyError(error),
+      initMs: performance.now() - start,
+      attempts: 0,
+    };
+  }
+  const initMs = performance.now() - start;
+
+  return { ...(await runIteration(service, methods, label, config, log, scheduledAt, logSuccess)), initMs };
+}
+
+/**
+ * Run one measured iteration, on a fresh instance in cold mode
+ */
+function runMeasuredIteration(
+  service: WalletService,
+  methods: OperationMethods,
+  label: string,
+  config: BenchmarkConfig,
+  log: Log,
+  createService?: ServiceFactory,
+  scheduledAt?: number,
+  logSuccess = true
+): Promise<SigningResult> {
+  return config.coldStart && createService
+    ? runColdIteration(createService, methods, label, config, log, scheduledAt, logSuccess)
+    : runIteration(service, methods, label, config, log, scheduledAt, logSuccess);
+}
+
+/**
+ * Check that cold mode can run with this config
+ *
+ * @throws Error if there is no factory for fresh instances, or statistics are streamed
+ */
+function checkColdStart(config: BenchmarkConfig, createService?: ServiceFactory): void {
+  if (!config.coldStart) return;
+  if (!createService) {
+    throw new Error('Cold mode needs a service factory to create fresh instances');
   }
+  if (config.statsMode === 'streaming') {
+    throw new Error('Cold mode cannot be combined with streaming statistics');
+  }
+}
+
+/**
+ * Check whether a deadline (from performance.now()) has passed
+ */
+function isPastDeadline(deadline: number | undefined): boolean {
+  return deadline !== undefined && performance.now() >= deadline;
+}
+
+/**
+ * Run `count` tasks with at most `concurrency` of them in flight
+ *
+ * Each worker waits `delayMs` between its own requests, so the delay
+ * paces every in-flight slot rather than the run as a whole. No new tasks
+ * are started once `deadline` has passed.
+ */
+async function runWithConcurrency(
+  count: number,
+  concurrency: number,
+  delayMs: number | undefined,
+  task: (index: number) => Promise<void>,
+  deadline?: number
+): Promise<void> {
+  let next = 0;
 
-  // Run Solana benchmark if requested
-  if (config.chain === 'solana' || config.chain === 'both') {
-    // Check if service supports Solana
-    if (typeof service.signMessageSolana !== 'function') {
-      console.log(`${displayName} does not support Solana, skipping`);
+  const worker = async () => {
+    while (next < count && !isPastDeadline(deadline)) {
+      const index = next++;
+      await task(index);
+
+      // Add delay between requests if configured
+      if (delayMs && next < count) {
+        await sleep(delayMs);
+      }
+    }
+  };
+
+  const workerCount = Math.min(concurrency, count);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+/**
+ * Dispatch `count` tasks at a fixed rate without waiting for earlier ones
+ *
+ * Each task receives the time it was scheduled to start, so callers can
+ * measure latency from the intended send time and avoid coordinated omission.
+ * Nothing is scheduled at or after `deadline`.
+ *
+ * @returns The peak number of tasks that were in flight at once
+ */
+async function runAtFixedRate(
+  count: number,
+  ratePerSecond: number,
+  task: (index: number, scheduledAt: number) => Promise<void>,
+  deadline?: number
+): Promise<number> {
+  const intervalMs = 1000 / ratePerSecond;
+  const start = performance.now();
+  const pending: Promise<void>[] = [];
+  let inFlight = 0;
+  let peakInFlight = 0;
+
+  for (let index = 0; index < count; index++) {
+    const scheduledAt = start + index * intervalMs;
+    if (deadline !== undefined && scheduledAt >= deadline) break;
+
+    const waitMs = scheduledAt - performance.now();
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+
+    inFlight++;
+    peakInFlight = Math.max(peakInFlight, inFlight);
+    pending.push(task(index, scheduledAt).finally(() => { inFlight--; }));
+  }
+
+  await Promise.all(pending);
+  return peakInFlight;
+}
+
+/**
+ * Collects the measured results of one slot
+ *
+ * Exact mode stores results by iteration index, so order is preserved even
+ * when requests complete out of order; streaming mode folds them into
+ * running statistics instead.
+ */
+class SlotRecorder {
+  readonly results: SigningResult[] = [];
+  readonly streaming?: StreamingRecorder;
+  private windowStart = 0;
+  private windowIndex = 0;
+
+  constructor(private readonly config: BenchmarkConfig) {
+    this.streaming = config.statsMode === 'streaming' ? new StreamingRecorder(config.summaryIntervalMs) : undefined;
+  }
+
+  record(index: number, result: SigningResult): void {
+    // Streaming mode keeps only some results, so each one carries its own number
+    const numbered = { ...result, iteration: index + 1 };
+    if (this.streaming) {
+      this.streaming.record(numbered);
     } else {
-      console.log(`Running Solana benchmark for ${displayName}...`);
-      result.solana = await runChainBenchmark(
-        service,
-        serviceName,
-        'solana',
-        config
-      );
-      console.log('');
+      this.results[index] = numbered;
     }
   }
 
-  return result;
+  /**
+   * Statistics since the previous rolling summary
+   *
+   * @param elapsedMs - Time since the measured iterations began
+   */
+  nextWindow(elapsedMs: number): IntervalStats {
+    // Streaming mode only has fixed windows, so report the one that just ended
+    const window = this.streaming
+      ? this.streaming.intervalStats(this.windowIndex++)
+      : summarizeWindow(this.results, this.windowStart, elapsedMs);
+    this.windowStart = elapsedMs;
+    return window;
+  }
+
+  /**
+   * Bundle everything recorded into a chain result
+   */
+  finish(
+    serviceName: string, slot: BenchmarkSlot, concurrency: number, durationMs: number, busyMs?: number
+  ): ChainBenchmarkResult {
+    const { results, streaming, config } = this;
+    const { chain, operation, message } = slot;
+
+    // Calculate success/error counts
+    const successCount = streaming?.successCount ?? results.filter(r => r.success).length;
+    const errorCount = streaming?.errorCount ?? results.filter(r => !r.success).length;
+
+    return {
+      chain,
+      operation,
+      serviceName,
+      results: streaming?.failures ?? results,
+      successCount,
+      errorCount,
+      concurrency,
+      durationMs,
+      busyMs,
+      ratePerSecond: config.ratePerSecond,
+      summaryIntervalMs: config.summaryIntervalMs,
+      streaming,
+      message: message && { id: message.id, bytes: payloadSize(message) },
+    };
+  }
+}
+
+/**
+ * Format a rolling summary line
+ */
+function formatWindow(window: IntervalStats, label?: string): string {
+  const prefix = label ? `${label}: ` : '';
+  return `  [${formatDuration(window.startMs)}-${formatDuration(window.endMs)}] ${prefix}${formatIntervalStats(window)}`;
 }
 
 /**
  * Run benchmark for a specific chain
+ *
+ * The service's first call is noted on `serviceResult` if no earlier chain made it.
  */
 async function runChainBenchmark(
   service: WalletService,
-  serviceName: string,
-  chain: 'ethereum' | 'solana',
-  config: BenchmarkConfig
+  serviceResult: BenchmarkResult,
+  slot: BenchmarkSlot,
+  config: BenchmarkConfig,
+  log: Log,
+  createService?: ServiceFactory
 ): Promise<ChainBenchmarkResult> {
-  const results: SigningResult[] = [];
-  const warmupIterations = config.warmupIterations ?? 2;
-  const totalIterations = warmupIterations + config.iterations;
-
-  // Get chain-specific methods
-  const methods = getChainMethods(chain);
+  const recorder = new SlotRecorder(config);
+  // Every cold iteration starts from scratch, so there is nothing to warm up
+  const warmupIterations = config.coldStart ? 0 : config.warmupIterations ?? 2;
+  let concurrency = Math.max(1, config.concurrency ?? 1);
+  const { methods } = slot;
 
-  // Run warmup + benchmark iterations
-  for (let i = 0; i < totalIterations; i++) {
-    const isWarmup = i < warmupIterations;
-    const iterationNumber = isWarmup ? `W${i + 1}` : `${i - warmupIterations + 1}`;
+  // Duration mode: only log failures per iteration, and summarize periodically
+  const logSuccess = config.runDurationMs === undefined;
+  let start = 0;
+  let deadline: number | undefined;
+  let summaryTimer: NodeJS.Timeout | undefined;
 
-    try {
-      // Call signing method
-      const serviceResult = await methods.sign(service, methods.message);
+  const beginMeasuredPhase = () => {
+    start = performance.now();
+    deadline = config.runDurationMs !== undefined ? start + config.runDurationMs : undefined;
 
-      // Verify signature (NOT TIMED - always verify)
-      const verifyResult = await methods.verify(methods.message, serviceResult.signature, serviceResult.walletAddress);
+    const intervalMs = config.summaryIntervalMs;
+    if (intervalMs) {
+      summaryTimer = setInterval(() => {
+        log(formatWindow(recorder.nextWindow(performance.now() - start)));
+      }, intervalMs);
+    }
+  };
 
-      const verified = verifyResult.valid;
+  const record = (index: number, result: SigningResult) => {
+    if (index === 0) serviceResult.firstCall ??= result;
+    recorder.record(index, result);
+  };
 
-      if (!verifyResult.valid) {
-        console.log(`  ⚠️  Signature verification failed: ${verifyResult.error}`);
-      }
+  try {
+    if (config.ratePerSecond) {
+      const rate = config.ratePerSecond;
 
-      // Display timing for each iteration
-      if (isWarmup) {
-        console.log(`  Warmup ${iterationNumber}: ${serviceResult.apiLatencyMs.toFixed(2)}ms ✓`);
-      } else {
-        console.log(`  Iteration ${iterationNumber}: ${serviceResult.apiLatencyMs.toFixed(2)}ms ✓`);
-      }
+      // Warmup iterations are run but never recorded
+      await runAtFixedRate(warmupIterations, rate, async (index, scheduledAt) => {
+        const result = await runIteration(service, methods, `Warmup W${index + 1}`, config, log, scheduledAt);
+        if (index === 0) serviceResult.firstCall ??= result;
+      });
 
-      // Only record non-warmup iterations
-      if (!isWarmup) {
-        results.push({
-          success: true,
-          signature: serviceResult.signature,
-          apiLatencyMs: serviceResult.apiLatencyMs,
-          walletAddress: serviceResult.walletAddress,
-          verified,
-        });
-      }
+      beginMeasuredPhase();
+      concurrency = await runAtFixedRate(config.iterations, rate, async (index, scheduledAt) => {
+        const result = await runMeasuredIteration(
+          service, methods, `Iteration ${index + 1}`, config, log, createService, scheduledAt, logSuccess
+        );
+        record(index, { ...result, startedAtMs: scheduledAt - start });
+      }, deadline);
+    } else {
+      // Warmup iterations are run but never recorded
+      await runWithConcurrency(warmupIterations, concurrency, config.delayMs, async index => {
+        const result = await runIteration(service, methods, `Warmup W${index + 1}`, config, log);
+        if (index === 0) serviceResult.firstCall ??= result;
+      });
 
-      // Add delay between requests if configured
-      if (config.delayMs && i < totalIterations - 1) {
+      if (warmupIterations > 0 && config.delayMs) {
         await sleep(config.delayMs);
       }
 
-    } catch (error: any) {
-      // Display error
-      console.log(`  ${isWarmup ? 'Warmup' : 'Iteration'} ${iterationNumber}: ❌ ${error.message}`);
-
-      // Only record errors for non-warmup iterations
-      if (!isWarmup) {
-        results.push({
-          success: false,
-          error: error.message,
-        });
-      }
+      beginMeasuredPhase();
+      await runWithConcurrency(config.iterations, concurrency, config.delayMs, async index => {
+        const startedAtMs = performance.now() - start;
+        const result = await runMeasuredIteration(
+          service, methods, `Iteration ${index + 1}`, config, log, createService, undefined, logSuccess
+        );
+        record(index, { ...result, startedAtMs });
+      }, deadline);
     }
+  } finally {
+    clearInterval(summaryTimer);
   }
+  const durationMs = performance.now() - start;
 
-  // Calculate success/error counts
-  const successCount = results.filter(r => r.success).length;
-  const errorCount = results.filter(r => !r.success).length;
+  return recorder.finish(serviceResult.serviceName, slot, concurrency, durationMs);
+}
 
-  return {
-    chain,
-    serviceName,
-    results,
-    successCount,
-    errorCount,
-  };
+/**
+ * Config for one service, with its overrides applied
+ */
+export function configForService(config: BenchmarkConfig, serviceName: string): BenchmarkConfig {
+  const overrides = config.serviceOverrides?.[serviceName];
+  return overrides ? { ...config, ...overrides } : config;
 }
 
 /**
@@ -228,17 +986,191 @@ async function runChainBenchmark(
  */
 export async function runBenchmarks(
   services: Map<string, WalletService>,
-  config: BenchmarkConfig
+  config: BenchmarkConfig,
+  factories?: Map<string, ServiceFactory>,
+  log: Log = console.log
 ): Promise<BenchmarkResult[]> {
+  if (config.schedule && config.schedule !== 'sequential') {
+    return runInterleaved(services, config, config.schedule, log, factories);
+  }
+
   const results: BenchmarkResult[] = [];
 
   for (const [serviceName, service] of services) {
     try {
-      const result = await runBenchmark(service, serviceName, config);
+      const result = await runBenchmark(
+        service, serviceName, configForService(config, serviceName), factories?.get(serviceName), log
+      );
       results.push(result);
     } catch (error: any) {
-      console.log(`${serviceName} benchmark failed: ${error.message}, skipping`);
+      log(`${serviceName} benchmark failed: ${error.message}, skipping`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * A slot of an interleaved run, with the service it belongs to
+ */
+interface InterleavedSlot extends BenchmarkSlot {
+  service: WalletService;
+  serviceName: string;
+  /** Results of the slot's service, filled in as the slots finish */
+  serviceResult: BenchmarkResult;
+  createService?: ServiceFactory;
+  /** Service config with its overrides applied */
+  config: BenchmarkConfig;
+  recorder: SlotRecorder;
+  /** Measured calls made so far */
+  count: number;
+  /** When the last call finished, in milliseconds since the measured calls began */
+  lastEndMs: number;
+  /** Time spent on the slot's own measured calls and delays */
+  busyMs: number;
+}
+
+/**
+ * Order of the slots in one round of an interleaved run
+ */
+function orderRound<T>(items: T[], round: number, schedule: ScheduleMode): T[] {
+  if (schedule === 'shuffled') {
+    // Fisher-Yates
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+  // Rotate the starting slot so no slot always goes first; within a round each
+  // slot still follows the same neighbour, which only the shuffled schedule avoids
+  const offset = items.length > 0 ? round % items.length : 0;
+  return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+/**
+ * Run all services at once, one signing call at a time, alternating between
+ * every service and chain/operation
+ *
+ * Each slot still makes its own warmup and measured iterations and honours
+ * its own delay (after each of its calls) and time budget (counted from when
+ * the measured calls began).
+ *
+ * @throws Error if any service is configured with concurrency or a rate
+ */
+async function runInterleaved(
+  services: Map<string, WalletService>,
+  config: BenchmarkConfig,
+  schedule: ScheduleMode,
+  log: Log,
+  factories?: Map<string, ServiceFactory>
+): Promise<BenchmarkResult[]> {
+  const serviceConfigs = [...services.keys()].map(name => configForService(config, name));
+  if (serviceConfigs.some(c => (c.concurrency ?? 1) > 1 || c.ratePerSecond !== undefined)) {
+    throw new Error(`The ${schedule} schedule makes one call at a time and cannot be combined with concurrency or rate`);
+  }
+
+  const results: BenchmarkResult[] = [];
+  const slots: InterleavedSlot[] = [];
+
+  for (const [serviceName, service] of services) {
+    // Rolling summaries are printed for all slots together, so every slot uses the same windows
+    const serviceConfig = { ...configForService(config, serviceName), summaryIntervalMs: config.summaryIntervalMs };
+    const createService = factories?.get(serviceName);
+
+    let initMs: number;
+    try {
+      checkColdStart(serviceConfig, createService);
+      initMs = await initializeService(service, serviceName, serviceConfig, log);
+    } catch (error: any) {
+      log(`${serviceName} benchmark failed: ${error.message}, skipping`);
+      continue;
+    }
+
+    const serviceResult: BenchmarkResult = { serviceName, initMs };
+    const displayName = capitalize(serviceName);
+    for (const slot of planSlots(service, displayName, serviceConfig, log)) {
+      slots.push({
+        ...slot,
+        label: `${displayName} ${slot.label}`,
+        service,
+        serviceName,
+        serviceResult,
+        createService,
+        config: serviceConfig,
+        recorder: new SlotRecorder(serviceConfig),
+        count: 0,
+        lastEndMs: 0,
+        busyMs: 0,
+      });
     }
+    results.push(serviceResult);
+  }
+
+  if (slots.length === 0) return results;
+
+  log(`\n🔀 Interleaving ${slots.length} benchmarks (${schedule})...`);
+
+  // Warmup calls are interleaved too, but never recorded (and skipped in cold mode)
+  const warmupsOf = (slot: InterleavedSlot) => slot.config.coldStart ? 0 : slot.config.warmupIterations ?? 2;
+  const warmupRounds = Math.max(...slots.map(warmupsOf));
+  for (let round = 0; round < warmupRounds; round++) {
+    const active = slots.filter(slot => round < warmupsOf(slot));
+    for (const slot of orderRound(active, round, schedule)) {
+      const result = await runIteration(slot.service, slot.methods, `${slot.label} warmup W${round + 1}`, slot.config, log);
+      slot.serviceResult.firstCall ??= result;
+      if (slot.config.delayMs) await sleep(slot.config.delayMs);
+    }
+  }
+
+  const start = performance.now();
+  const deadlineOf = (slot: InterleavedSlot) =>
+    slot.config.runDurationMs !== undefined ? start + slot.config.runDurationMs : undefined;
+
+  let summaryTimer: NodeJS.Timeout | undefined;
+  if (config.summaryIntervalMs) {
+    summaryTimer = setInterval(() => {
+      const elapsedMs = performance.now() - start;
+      for (const slot of slots) {
+        log(formatWindow(slot.recorder.nextWindow(elapsedMs), slot.label));
+      }
+    }, config.summaryIntervalMs);
+  }
+
+  try {
+    for (let round = 0; ; round++) {
+      const active = slots.filter(slot => slot.count < slot.config.iterations && !isPastDeadline(deadlineOf(slot)));
+      if (active.length === 0) break;
+
+      for (const slot of orderRound(active, round, schedule)) {
+        // An earlier call this round may have used up the slot's time budget
+        if (isPastDeadline(deadlineOf(slot))) continue;
+
+        const index = slot.count++;
+        const callStart = performance.now();
+        const startedAtMs = callStart - start;
+        const logSuccess = slot.config.runDurationMs === undefined;
+        const result = await runMeasuredIteration(
+          slot.service, slot.methods, `${slot.label} #${index + 1}`, slot.config, log, slot.createService, undefined, logSuccess
+        );
+        slot.serviceResult.firstCall ??= result;
+        slot.recorder.record(index, { ...result, startedAtMs });
+        slot.lastEndMs = performance.now() - start;
+
+        if (slot.config.delayMs) await sleep(slot.config.delayMs);
+        slot.busyMs += performance.now() - callStart;
+      }
+    }
+  } finally {
+    clearInterval(summaryTimer);
+  }
+  log('');
+
+  // Assemble results per service, in the order they would have run sequentially.
+  // The run's wall time is shared by every slot, so throughput uses each slot's busy time
+  for (const slot of slots) {
+    addChainResult(slot.serviceResult, slot.recorder.finish(slot.serviceName, slot, 1, slot.lastEndMs, slot.busyMs));
   }
 
   return results;
@@ -0,0 +1,96 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { discoverServices, getAvailableServices } from './service-discovery.js';
+
+const VALID_SERVICE = `
+export default class Service {
+  async initialize() {}
+  async signMessageEthereum() {
+    return { signature: '0x', apiLatencyMs: 0, walletAddress: '0x' };
+  }
+}
+`;
+
+describe('discoverServices', () => {
+  let servicesDir: string;
+
+  function addService(name: string, source?: string) {
+    const dir = path.join(servicesDir, name);
+    fs.mkdirSync(dir, { recursive: true });
+    if (source !== undefined) {
+      fs.writeFileSync(path.join(dir, 'index.ts'), source);
+    }
+  }
+
+  before(() => {
+    servicesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'slate-services-'));
+
+    addService('alpha', VALID_SERVICE);
+    addService('beta', VALID_SERVICE);
+    addService('.hidden', VALID_SERVICE);
+    addService('docs'); // No index.ts
+    addService('noexport', 'export const value = 1;\n');
+    addService('notaclass', 'export default 42;\n');
+    addService('incomplete', 'export default class Service { async initialize() {} }\n');
+    addService('optout', `${VALID_SERVICE}\nexport const includeInAll = false;\n`);
+    addService('configured', `${VALID_SERVICE}
+export const includeInAll = false;
+export const manifest = {
+  chains: ['ethereum', 'solana'],
+  env: [{ name: 'SLATE_TEST_UNSET_SOLANA_KEY', description: 'Solana key', chains: ['solana'] }],
+};
+`);
+  });
+
+  after(() => {
+    fs.rmSync(servicesDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  it('loads every valid service when no filter is given', async () => {
+    const services = await discoverServices(undefined, servicesDir);
+    assert.deepEqual([...services.keys()].sort(), ['alpha', 'beta']);
+  });
+
+  it('treats "all" like no filter', async () => {
+    const services = await discoverServices('all', servicesDir);
+    assert.deepEqual([...services.keys()].sort(), ['alpha', 'beta']);
+  });
+
+  it('matches a single service case-insensitively', async () => {
+    const services = await discoverServices('ALPHA', servicesDir);
+    assert.deepEqual([...services.keys()], ['alpha']);
+  });
+
+  it('loads services that opt out of "all" when selected by name', async () => {
+    const services = await discoverServices('optout', servicesDir);
+    assert.deepEqual([...services.keys()], ['optout']);
+  });
+
+  it('skips services missing env vars required for the benchmarked chains', async () => {
+    assert.equal((await discoverServices('configured', servicesDir, ['ethereum'])).size, 1);
+    assert.equal((await discoverServices('configured', servicesDir, ['ethereum', 'solana'])).size, 0);
+  });
+
+  it('returns nothing for an unknown service', async () => {
+    const services = await discoverServices('gamma', servicesDir);
+    assert.equal(services.size, 0);
+  });
+
+  it('returns uninitialized instances', async () => {
+    const services = await discoverServices('beta', servicesDir);
+    assert.equal(typeof services.get('beta')!.signMessageEthereum, 'function');
+  });
+});
+
+describe('getAvailableServices', () => {
+  it('returns an empty list when the directory does not exist', () => {
+    assert.deepEqual(getAvailableServices(path.join(os.tmpdir(), 'slate-does-not-exist')), []);
+  });
+});
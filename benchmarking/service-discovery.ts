@@ -7,19 +7,99 @@
 
 import fs from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
-import type { WalletService } from '../services/index.js';
-import { capitalize } from './utils.js';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { missingEnvVars, type ServiceManifest, type WalletService } from '../services/index.js';
+import { capitalize, type Log } from './utils.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const SERVICES_DIR = path.join(__dirname, '../services');
+
+/**
+ * A service module that passed the discovery checks
+ */
+export interface LoadedService {
+  name: string;
+  /** Uninitialized instance */
+  service: WalletService;
+  /** The module's `manifest` export, if any */
+  manifest?: ServiceManifest;
+  /** False if the module exports `includeInAll = false` */
+  includeInAll: boolean;
+}
+
+/**
+ * Import a service folder and instantiate its default export
+ *
+ * @param serviceName - Folder name inside the services directory
+ * @param servicesDir - Directory to load from (defaults to the repo's services/ directory)
+ * @returns undefined if the folder has no index.ts (e.g. docs)
+ * @throws Error describing why the module is not a usable service
+ */
+export async function loadServiceModule(
+  serviceName: string,
+  servicesDir: string = SERVICES_DIR
+): Promise<LoadedService | undefined> {
+  // Check if index.ts file exists
+  const indexPath = path.join(servicesDir, serviceName, 'index.ts');
+  if (!fs.existsSync(indexPath)) {
+    return undefined;
+  }
+
+  // Dynamic import
+  let module: any;
+  try {
+    module = await import(pathToFileURL(indexPath).href);
+  } catch (error: any) {
+    throw new Error(`Failed to load: ${error.message}`);
+  }
+
+  // Check for default export
+  if (!module.default) {
+    throw new Error('No default export found');
+  }
+
+  // Verify it's a class/constructor
+  const ServiceClass = module.default;
+  if (typeof ServiceClass !== 'function') {
+    throw new Error('Default export is not a class');
+  }
+
+  // Instantiate service (don't initialize yet - that's the runner's job)
+  let service: WalletService;
+  try {
+    service = new ServiceClass();
+  } catch (error: any) {
+    throw new Error(`Failed to load: ${error.message}`);
+  }
+
+  // Verify it implements WalletService interface
+  if (typeof service.initialize !== 'function' ||
+      typeof service.signMessageEthereum !== 'function') {
+    throw new Error('Does not implement WalletService interface');
+  }
+
+  return {
+    name: serviceName,
+    service,
+    manifest: module.manifest,
+    includeInAll: module.includeInAll !== false,
+  };
+}
+
 /**
  * Discover and load wallet services from the services directory
  *
  * @param filter - Optional filter: service name, 'all', or undefined (=all)
+ * @param servicesDir - Directory to scan (defaults to the repo's services/ directory)
+ * @param chains - Chains about to be benchmarked; services whose manifest lists
+ *                 required env vars for them that are not set are skipped
+ * @param log - Where to report loaded and skipped services
  * @returns Map of service name to uninitialized service instance
  *
+ * Services that export `includeInAll = false` are only loaded when selected by name.
+ *
  * @example
  * // Load all services
  * const services = await discoverServices();
@@ -28,9 +108,11 @@ const __dirname = path.dirname(__filename);
  * const privy = await discoverServices('privy');
  */
 export async function discoverServices(
-  filter?: string
+  filter?: string,
+  servicesDir: string = SERVICES_DIR,
+  chains?: ('ethereum' | 'solana')[],
+  log: Log = console.log
 ): Promise<Map<string, WalletService>> {
-  const servicesDir = path.join(__dirname, '../services');
   const results = new Map<string, WalletService>();
 
   // Read services directory
@@ -42,73 +124,70 @@ export async function discoverServices(
     .map(entry => entry.name);
 
   // Apply filter if specified
-  const toLoad = filter && filter !== 'all'
+  if (filter === 'all') {
+    filter = undefined;
+  }
+  const toLoad = filter
     ? serviceDirs.filter(name => name.toLowerCase() === filter.toLowerCase())
     : serviceDirs;
 
-  if (toLoad.length === 0 && filter && filter !== 'all') {
-    console.log(`No service found matching: ${filter}`);
-    console.log(`Available services: ${serviceDirs.join(', ')}`);
+  if (toLoad.length === 0 && filter) {
+    log(`No service found matching: ${filter}`);
+    log(`Available services: ${serviceDirs.join(', ')}`);
     return results;
   }
 
   // Load each service
   for (const serviceName of toLoad) {
+    let loaded: LoadedService | undefined;
     try {
-      // Check if index.ts file exists
-      const indexPath = path.join(servicesDir, serviceName, 'index.ts');
-      if (!fs.existsSync(indexPath)) {
-        // Skip silently - might be docs folder or incomplete service
-        continue;
-      }
-
-      // Dynamic import
-      const modulePath = `../services/${serviceName}/index.ts`;
-      const module = await import(modulePath);
-
-      // Check for default export
-      if (!module.default) {
-        console.log(`${serviceName}: No default export found, skipping`);
-        continue;
-      }
-
-      // Verify it's a class/constructor
-      const ServiceClass = module.default;
-      if (typeof ServiceClass !== 'function') {
-        console.log(`${serviceName}: Default export is not a class, skipping`);
-        continue;
-      }
-
-      // Instantiate service (don't initialize yet - that's the runner's job)
-      const service = new ServiceClass();
-
-      // Verify it implements WalletService interface
-      if (typeof service.initialize !== 'function' ||
-          typeof service.signMessageEthereum !== 'function') {
-        console.log(`${serviceName}: Does not implement WalletService interface, skipping`);
-        continue;
-      }
-
-      // Add to results
-      results.set(serviceName, service);
-      console.log(`✅ ${capitalize(serviceName)} loaded`);
-
+      loaded = await loadServiceModule(serviceName, servicesDir);
     } catch (error: any) {
-      console.log(`${serviceName}: Failed to load: ${error.message}, skipping`);
+      log(`${serviceName}: ${error.message}, skipping`);
+      continue;
     }
+
+    // Skip silently - might be docs folder or incomplete service
+    if (!loaded) continue;
+
+    // Services can opt out of "all" runs (e.g. the local mock)
+    if (!filter && !loaded.includeInAll) continue;
+
+    // Catch missing configuration before the benchmark starts
+    const missing = chains && loaded.manifest ? missingEnvVars(loaded.manifest, chains) : [];
+    if (missing.length > 0) {
+      log(`${serviceName}: Missing env vars ${missing.join(', ')}, skipping (see \`npm run benchmark doctor\`)`);
+      continue;
+    }
+
+    // Add to results
+    results.set(serviceName, loaded.service);
+    log(`✅ ${capitalize(serviceName)} loaded`);
   }
 
   return results;
 }
 
+/**
+ * Create a fresh, uninitialized instance of a service through discovery
+ *
+ * @throws Error if the service cannot be loaded
+ */
+export async function createService(serviceName: string, servicesDir: string = SERVICES_DIR): Promise<WalletService> {
+  const loaded = await loadServiceModule(serviceName, servicesDir);
+  if (!loaded) {
+    throw new Error(`No service found matching: ${serviceName}`);
+  }
+  return loaded.service;
+}
+
 /**
  * Get list of available service names
  *
+ * @param servicesDir - Directory to scan (defaults to the repo's services/ directory)
  * @returns Array of service names found in the services directory
  */
-export function getAvailableServices(): string[] {
-  const servicesDir = path.join(__dirname, '../services');
-
+export function getAvailableServices(servicesDir: string = SERVICES_DIR): string[] {
   try {
     const entries = fs.readdirSync(servicesDir, { withFileTypes: true });
     return entries
@@ -0,0 +1,572 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HttpPhase } from './http-phases.js';
+import type { BenchmarkResult, ChainBenchmarkResult, SigningResult } from './runner.js';
+import {
+  binLatencies,
+  calculateAllStats,
+  computeStats,
+  calculatePayloadCurve,
+  formatHistogram,
+  formatPayloadCurves,
+  formatRankingsMarkdown,
+  formatServiceStats,
+  formatServiceStatsMarkdown,
+  formatSparkline,
+  formatSpreadChart,
+  formatStartupTimes,
+  getPercentile,
+  medianAbsoluteDeviation,
+  trimmedMean,
+  mannWhitneyU,
+  rankLeader,
+  rankServicesByChain,
+} from './statistics.js';
+
+function chainResult(
+  serviceName: string,
+  chain: 'ethereum' | 'solana',
+  latencies: number[],
+  errors = 0
+): ChainBenchmarkResult {
+  const results: SigningResult[] = [
+    ...latencies.map(apiLatencyMs => ({ success: true, apiLatencyMs, verified: true })),
+    ...Array.from({ length: errors }, () => ({ success: false, error: 'boom' })),
+  ];
+
+  return {
+    chain,
+    operation: 'message',
+    serviceName,
+    results,
+    successCount: latencies.length,
+    errorCount: errors,
+    concurrency: 1,
+    durationMs: 1000,
+  };
+}
+
+describe('getPercentile', () => {
+  it('returns 0 for an empty array', () => {
+    assert.equal(getPercentile([], 50), 0);
+  });
+
+  it('returns the only value of a single-element array', () => {
+    assert.equal(getPercentile([42], 50), 42);
+    assert.equal(getPercentile([42], 99), 42);
+  });
+
+  it('returns exact elements when the index is whole', () => {
+    const sorted = [10, 20, 30, 40, 50];
+    assert.equal(getPercentile(sorted, 0), 10);
+    assert.equal(getPercentile(sorted, 50), 30);
+    assert.equal(getPercentile(sorted, 100), 50);
+  });
+
+  it('interpolates linearly between neighbours', () => {
+    const sorted = [10, 20, 30, 40];
+    assert.equal(getPercentile(sorted, 50), 25);
+    assert.ok(Math.abs(getPercentile(sorted, 95) - 38.5) < 1e-9);
+  });
+});
+
+describe('computeStats', () => {
+  it('returns zeros when there are no samples', () => {
+    const stats = computeStats([], 0, 0, 0, 0);
+    assert.equal(stats.iterations, 0);
+    assert.equal(stats.mean, 0);
+    assert.equal(stats.median, 0);
+    assert.equal(stats.successRate, 0);
+    assert.deepEqual(stats.latencies, []);
+  });
+
+  it('reports 0% success when every iteration failed', () => {
+    const stats = computeStats([], 0, 5, 0, 0);
+    assert.equal(stats.iterations, 5);
+    assert.equal(stats.errorCount, 5);
+    assert.equal(stats.successRate, 0);
+  });
+
+  it('handles a single sample', () => {
+    const stats = computeStats([120], 1, 0, 1, 0);
+    assert.equal(stats.mean, 120);
+    assert.equal(stats.median, 120);
+    assert.equal(stats.min, 120);
+    assert.equal(stats.max, 120);
+    assert.equal(stats.p99, 120);
+    assert.equal(stats.standardDeviation, 0);
+    assert.deepEqual(stats.medianCI, { lower: 120, upper: 120 });
+  });
+
+  it('computes summary statistics and success rate', () => {
+    const stats = computeStats([40, 10, 30, 20], 4, 1, 3, 1);
+    assert.equal(stats.iterations, 5);
+    assert.equal(stats.mean, 25);
+    assert.equal(stats.median, 25);
+    assert.equal(stats.min, 10);
+    assert.equal(stats.max, 40);
+    assert.equal(stats.variance, 125);
+    assert.equal(stats.successRate, 80);
+    assert.deepEqual(stats.latencies, [10, 20, 30, 40]);
+    assert.equal(stats.verifiedCount, 3);
+    assert.equal(stats.verificationFailures, 1);
+  });
+
+  it('produces a confidence interval that contains the median', () => {
+    const latencies = Array.from({ length: 50 }, (_, i) => 100 + i);
+    const stats = computeStats(latencies, 50, 0, 50, 0);
+    assert.ok(stats.medianCI.lower <= stats.median);
+    assert.ok(stats.medianCI.upper >= stats.median);
+  });
+
+  it('uses rank-based confidence intervals for large samples', () => {
+    const latencies = Array.from({ length: 100_000 }, (_, i) => i);
+    const stats = computeStats(latencies, 100_000, 0, 100_000, 0);
+    // ±1.96·sqrt(n·0.25) ranks around the median
+    assert.deepEqual(stats.medianCI, { lower: 49690, upper: 50310 });
+    assert.ok(stats.p95CI.lower < 94999.05 && stats.p95CI.upper > 94999.05);
+  });
+
+  it('flags an extreme sample without dropping it', () => {
+    const latencies = [...Array.from({ length: 19 }, (_, i) => 100 + i), 4000];
+    const stats = computeStats(latencies, 20, 0, 20, 0);
+    assert.equal(stats.outliers.count, 1);
+    assert.ok(stats.outliers.upper < 4000);
+    assert.equal(stats.max, 4000);
+    assert.equal(stats.latencies.length, 20);
+    assert.ok(Math.abs(stats.mean - 303.55) < 1e-9);
+    assert.equal(stats.trimmedMean, 109.5);
+    assert.equal(stats.mad, 5);
+  });
+
+  it('does not flag a wide but consistent spread', () => {
+    const latencies = Array.from({ length: 50 }, (_, i) => 50 + i * 10);
+    assert.equal(computeStats(latencies, 50, 0, 50, 0).outliers.count, 0);
+  });
+});
+
+describe('robust statistics', () => {
+  it('trims the same share from each end', () => {
+    assert.equal(trimmedMean([1, 2, 3, 4, 5, 6, 7, 8, 9, 100]), 5.5);
+    assert.equal(trimmedMean([1, 2, 3, 4, 5, 6, 7, 8, 9, 100], 0), 14.5);
+    assert.equal(trimmedMean([]), 0);
+  });
+
+  it('measures the median absolute deviation', () => {
+    assert.equal(medianAbsoluteDeviation([1, 1, 2, 2, 4, 6, 9], 2), 1);
+    assert.equal(medianAbsoluteDeviation([7, 7, 7], 7), 0);
+  });
+
+  it('reports trimmed mean, MAD and outliers under each chain', () => {
+    const latencies = [...Array.from({ length: 19 }, (_, i) => 100 + i), 4000];
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: chainResult('svc', 'ethereum', latencies) }]);
+
+    const output = formatServiceStats(stats);
+    assert.match(output, /Trimmed Mean \(10%\): 109\.50ms\n {2}MAD: 5\.00ms/);
+    assert.match(output, /Outliers: 1 outside \d+\.\d\d-\d+\.\d\dms \(kept in all statistics\)/);
+  });
+});
+
+describe('calculateAllStats', () => {
+  it('computes per-chain, consolidated and throughput statistics', () => {
+    const result: BenchmarkResult = {
+      serviceName: 'svc',
+      ethereum: chainResult('svc', 'ethereum', [10, 20, 30], 1),
+      solana: chainResult('svc', 'solana', [40, 50]),
+    };
+
+    const [stats] = calculateAllStats([result]);
+    assert.equal(stats.ethereum!.median, 20);
+    assert.equal(stats.ethereum!.successRate, 75);
+    assert.equal(stats.ethereum!.throughput, 3);
+    assert.equal(stats.solana!.mean, 45);
+    assert.equal(stats.consolidated!.iterations, 6);
+    assert.equal(stats.consolidated!.median, 30);
+    assert.equal(stats.consolidated!.throughput, 2.5);
+  });
+
+  it('bases throughput on busy time when slots were interleaved', () => {
+    const result: BenchmarkResult = {
+      serviceName: 'svc',
+      ethereum: { ...chainResult('svc', 'ethereum', [10, 20]), busyMs: 250 },
+      solana: { ...chainResult('svc', 'solana', [30, 40]), busyMs: 250 },
+    };
+
+    const [stats] = calculateAllStats([result]);
+    assert.equal(stats.ethereum!.throughput, 8);
+    assert.equal(stats.consolidated!.throughput, 8);
+  });
+
+  it('adds open-loop schedule delay and retry time to latency', () => {
+    const result = chainResult('svc', 'ethereum', []);
+    result.results = [{ success: true, apiLatencyMs: 100, scheduleDelayMs: 50, retryDelayMs: 30 }];
+    result.successCount = 1;
+
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: result }]);
+    assert.equal(stats.ethereum!.median, 180);
+  });
+
+  it('summarizes each interval of a duration-based run', () => {
+    const result = chainResult('svc', 'ethereum', []);
+    result.results = [
+      { success: true, apiLatencyMs: 10, startedAtMs: 0 },
+      { success: true, apiLatencyMs: 30, startedAtMs: 500 },
+      { success: false, error: 'boom', startedAtMs: 1200 },
+      { success: true, apiLatencyMs: 50, startedAtMs: 1500 },
+    ];
+    result.successCount = 3;
+    result.errorCount = 1;
+    result.durationMs = 1600;
+    result.summaryIntervalMs = 1000;
+
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: result }]);
+    assert.deepEqual(stats.ethereum!.intervals, [
+      { startMs: 0, endMs: 1000, successCount: 2, errorCount: 0, median: 20, p95: 29, p99: 29.8 },
+      { startMs: 1000, endMs: 1600, successCount: 1, errorCount: 1, median: 50, p95: 50, p99: 50 },
+    ]);
+  });
+});
+
+describe('timing cross-check', () => {
+  function timedResult(pairs: [apiLatencyMs: number, wallClockMs: number][]): ChainBenchmarkResult {
+    const result = chainResult('svc', 'ethereum', []);
+    result.results = pairs.map(([apiLatencyMs, wallClockMs]) => ({ success: true, apiLatencyMs, wallClockMs }));
+    result.successCount = pairs.length;
+    return result;
+  }
+
+  it('reports the untimed overhead without warnings for plausible timing', () => {
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: timedResult([[100, 100.5], [200, 201], [150, 150.2]]) }]);
+    const check = stats.ethereum!.timingCheck!;
+
+    assert.equal(check.samples, 3);
+    assert.equal(check.overheadMedian, 0.5);
+    assert.deepEqual(check.warnings, []);
+  });
+
+  it('flags reported latency larger than the wall-clock time', () => {
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: timedResult([[100, 100.5], [250, 200]]) }]);
+    const check = stats.ethereum!.timingCheck!;
+
+    assert.equal(check.overReportedCount, 1);
+    assert.match(check.warnings[0], /more latency than the harness measured/);
+  });
+
+  it('flags reported latency far below the wall-clock time', () => {
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: timedResult([[10, 100], [12, 110]]) }]);
+    assert.match(stats.ethereum!.timingCheck!.warnings[0], /leaves out/);
+  });
+});
+
+describe('HTTP phase breakdown', () => {
+  it('reports median time per phase and connection reuse', () => {
+    const traced = (connectionReused: boolean, phases: Partial<Record<HttpPhase, number>>): SigningResult => ({
+      success: true,
+      apiLatencyMs: 100,
+      httpPhases: { requestCount: 1, connectionReused, phases },
+    });
+    const result = chainResult('svc', 'ethereum', [100, 100, 100]);
+    result.results = [
+      traced(false, { dns: 5, connect: 10, tls: 20, ttfb: 60, download: 1 }),
+      traced(true, { ttfb: 70, download: 2 }),
+      traced(true, { ttfb: 80, download: 3 }),
+    ];
+
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: result }]);
+    assert.deepEqual(stats.ethereum!.httpPhases, {
+      samples: 3,
+      reusedCount: 2,
+      medians: { dns: 5, connect: 10, tls: 20, ttfb: 70, download: 2 },
+    });
+    assert.match(formatServiceStats(stats), /HTTP phases \(median\): DNS 5\.00ms, connect 10\.00ms, TLS 20\.00ms, TTFB 70\.00ms/);
+    assert.match(formatServiceStats(stats), /Connection reused: 2\/3 calls/);
+  });
+
+  it('is omitted when phases were not traced', () => {
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: chainResult('svc', 'ethereum', [10]) }]);
+    assert.equal(stats.ethereum!.httpPhases, undefined);
+  });
+});
+
+describe('payload curves', () => {
+  const corpusResult = (serviceName: string, id: string, bytes: number, latencies: number[], errors = 0) => ({
+    ...chainResult(serviceName, 'ethereum', latencies, errors),
+    message: { id, bytes },
+  });
+
+  const stats = calculateAllStats([
+    {
+      serviceName: 'flat',
+      corpus: [
+        corpusResult('flat', '1KB', 1024, [100, 100]),
+        corpusResult('flat', '16KB', 16384, [100, 100]),
+      ],
+    },
+    {
+      serviceName: 'growing',
+      corpus: [
+        corpusResult('growing', '1KB', 1024, [101, 101]),
+        corpusResult('growing', '16KB', 16384, [131, 131], 1),
+      ],
+    },
+  ]);
+
+  it('fits the median against payload size', () => {
+    const curve = calculatePayloadCurve(stats[1], 'ethereum')!;
+    assert.deepEqual(curve.points.map(p => p.message), [{ id: '1KB', bytes: 1024 }, { id: '16KB', bytes: 16384 }]);
+    assert.equal(curve.slopeMsPerKB, 2);
+    assert.equal(calculatePayloadCurve(stats[0], 'ethereum')!.slopeMsPerKB, 0);
+    assert.equal(calculatePayloadCurve(stats[0], 'solana'), undefined);
+  });
+
+  it('tabulates messages against services and flags partial failures', () => {
+    const table = formatPayloadCurves(stats, 'ethereum')!;
+    const lines = table.split('\n');
+
+    assert.match(lines[1], /Message\s+Bytes\s+Flat\s+Growing/);
+    assert.match(lines[3], /16KB\s+16384\s+100\.00ms\s+131\.00ms\*/);
+    assert.match(lines[4], /Slope\s+0\.00ms\/KB\s+2\.00ms\/KB/);
+    assert.match(table, /\* some calls failed or failed verification/);
+    assert.equal(formatPayloadCurves(stats, 'solana'), undefined);
+  });
+});
+
+describe('startup cost', () => {
+  it('reports initialization, first-call and cold-start times', () => {
+    const result = chainResult('svc', 'ethereum', [100, 200, 300]);
+    result.results = result.results.map((r, index) => ({ ...r, initMs: [40, 60, 50][index] }));
+
+    const stats = calculateAllStats([
+      { serviceName: 'svc', initMs: 800, firstCall: { success: true, apiLatencyMs: 450 }, ethereum: result },
+      { serviceName: 'fast', initMs: 20, ethereum: chainResult('fast', 'ethereum', [10]) },
+    ]);
+
+    assert.equal(stats[0].initMs, 800);
+    assert.equal(stats[0].firstCallMs, 450);
+    const { totalP95, ...coldStart } = stats[0].ethereum!.coldStart!;
+    assert.deepEqual(coldStart, { samples: 3, initMedian: 50, initP95: 59, totalMedian: 260 });
+    assert.equal(Math.round(totalP95), 341);
+    assert.match(formatServiceStats(stats[0]), /^Initialization: 800\.00ms, first call: 450\.00ms/);
+    assert.match(formatServiceStats(stats[0]), /Cold start: init 50\.00ms median \/ 59\.00ms p95, init \+ sign 260\.00ms median/);
+
+    const lines = formatStartupTimes(stats)!.split('\n');
+    assert.equal(lines[0], '  Fast: initialize 20.00ms');
+    assert.equal(lines[1], '  Svc: initialize 800.00ms, first call 450.00ms');
+  });
+
+  it('omits the first call when it failed', () => {
+    const result = chainResult('svc', 'ethereum', [10]);
+    const [stats] = calculateAllStats([{ serviceName: 'svc', firstCall: { success: false, error: 'boom' }, ethereum: result }]);
+    assert.equal(stats.firstCallMs, undefined);
+    assert.equal(stats.ethereum!.coldStart, undefined);
+    assert.equal(formatStartupTimes([stats]), undefined);
+  });
+});
+
+describe('binLatencies', () => {
+  it('counts latencies in equal-width bins, including the maximum', () => {
+    const bins = binLatencies([10, 12, 15, 19, 20], 2);
+    assert.deepEqual(bins, [
+      { start: 10, end: 15, count: 2 },
+      { start: 15, end: 20, count: 3 },
+    ]);
+  });
+
+  it('ignores latencies outside shared bounds', () => {
+    assert.deepEqual(binLatencies([5, 50, 500], 1, 0, 100), [{ start: 0, end: 100, count: 2 }]);
+    assert.deepEqual(binLatencies([], 4), []);
+  });
+});
+
+describe('Markdown tables', () => {
+  const stats = calculateAllStats([
+    { serviceName: 'slow|one', ethereum: chainResult('slow|one', 'ethereum', [200, 210, 190, 205, 220, 215, 195, 200]) },
+    { serviceName: 'fast', initMs: 42, ethereum: chainResult('fast', 'ethereum', [100, 110, 90, 105, 120, 115, 95, 100], 2) },
+  ]);
+
+  it('ranks services with median, mean, p95, p99 and success rate', () => {
+    const lines = formatRankingsMarkdown(stats, 'ethereum')!.split('\n');
+    assert.equal(lines[0], '| Rank | Service | Median | Mean | P95 | P99 | Success rate |');
+    assert.equal(lines[1], '| --- | --- | ---: | ---: | ---: | ---: | ---: |');
+    assert.match(lines[2], /^\| 1 \| Fast \| 102\.50ms \| 104\.38ms \| \d+\.\d\dms \| \d+\.\d\dms \| 80\.0% \|$/);
+    assert.match(lines[3], /^\| 2 \| Slow\\\|one \|/);
+    assert.equal(formatRankingsMarkdown(stats, 'solana'), undefined);
+  });
+
+  it('adds a score column for composite rankings', () => {
+    const lines = formatRankingsMarkdown(stats, 'ethereum', 'message', 'composite')!.split('\n');
+    assert.equal(lines[0], '| Rank | Service | Score | Median | Mean | P95 | P99 | Success rate |');
+    assert.match(lines[2], /^\| 1 \| Fast \| \d+\.\d\d \| 102\.50ms \|/);
+  });
+
+  it('notes services that are not significantly different', () => {
+    const tied = calculateAllStats([
+      { serviceName: 'a', ethereum: chainResult('a', 'ethereum', [100, 110, 90]) },
+      { serviceName: 'b', ethereum: chainResult('b', 'ethereum', [101, 111, 91]) },
+    ]);
+    assert.match(formatRankingsMarkdown(tied, 'ethereum')!, /\n\n- B is not significantly different from A \(p=/);
+  });
+
+  it('details each chain with initialization time', () => {
+    const table = formatServiceStatsMarkdown(stats[1]);
+    assert.match(table, /^\| Chain \| Iterations \| Success rate \| Verified \|/);
+    assert.match(table, /\| Ethereum \| 10 \| 80\.0% \| 8\/8 \|/);
+    assert.match(table, /\n\nInitialization: 42\.00ms$/);
+  });
+});
+
+describe('terminal charts', () => {
+  it('draws a histogram with one line per bin', () => {
+    const lines = formatHistogram([10, 10, 10, 10, 12, 20], 2);
+    assert.equal(lines.length, 2);
+    assert.match(lines[0], /^10\.0-15\.0ms █{30} 5$/);
+    assert.match(lines[1], /^15\.0-20\.0ms ██████ +1$/);
+  });
+
+  it('draws histograms of more latencies than fit in an argument list', () => {
+    const latencies = Array.from({ length: 200_000 }, (_, i) => 10 + Math.floor(i / 2000));
+    const lines = formatHistogram(latencies, 2);
+    assert.match(lines[0], /^ 10\.0-59\.5ms █{30} 100000$/);
+
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: chainResult('svc', 'ethereum', latencies) }]);
+    assert.match(formatServiceStats(stats), /Per iteration: .* \(10\.00-109\.00ms\)/);
+  });
+
+  it('draws one sparkline point per iteration, marking failures', () => {
+    assert.equal(formatSparkline([10, 80, null, 45]), '▁█×▅');
+    assert.equal(formatSparkline([5, 5, 5]), '▁▁▁');
+  });
+
+  it('averages long runs into the sparkline width', () => {
+    const line = formatSparkline([...Array(50).fill(10), ...Array(50).fill(90)], 10);
+    assert.equal(line, '▁▁▁▁▁█████');
+  });
+
+  it('adds a histogram and sparkline under each chain', () => {
+    const [stats] = calculateAllStats([{ serviceName: 'svc', ethereum: chainResult('svc', 'ethereum', [10, 20, 30], 1) }]);
+    assert.deepEqual(stats.ethereum!.iterationLatencies, [10, 20, 30, null]);
+
+    const output = formatServiceStats(stats);
+    assert.match(output, /Distribution:\n {4}10\.0-12\.5ms/);
+    assert.match(output, /Per iteration: ▁▅█× \(10\.00-30\.00ms\)/);
+  });
+
+  it('charts the spread of each ranked service on a shared scale', () => {
+    const stats = calculateAllStats([
+      { serviceName: 'tight', ethereum: chainResult('tight', 'ethereum', Array(20).fill(100)) },
+      { serviceName: 'wide', ethereum: chainResult('wide', 'ethereum', Array.from({ length: 21 }, (_, i) => 50 + i * 5)) },
+    ]);
+    const lines = formatSpreadChart(stats, 'ethereum', 'message', 'median', 21)!.split('\n');
+
+    // Equal medians, so only the chart tells them apart: p5-p95 of "wide" spans the
+    // whole scale, while "tight" is a single median mark in the middle
+    assert.equal(lines[0], '  Tight           ┃           100-100ms');
+    assert.equal(lines[1], '  Wide  ────██████┃██████──── 55-145ms');
+    assert.equal(lines[2], '        55ms            145ms');
+    assert.equal(formatSpreadChart(stats, 'solana'), undefined);
+  });
+});
+
+describe('mannWhitneyU', () => {
+  it('finds clearly separated samples significant', () => {
+    const fast = Array.from({ length: 10 }, (_, i) => i + 1);
+    const slow = fast.map(v => v + 10);
+    assert.ok(mannWhitneyU(fast, slow) < 0.001);
+  });
+
+  it('finds identical samples not significant', () => {
+    const samples = [5, 6, 7, 8, 9];
+    assert.ok(mannWhitneyU(samples, samples) > 0.9);
+  });
+
+  it('returns 1 for empty samples', () => {
+    assert.equal(mannWhitneyU([], [1, 2, 3]), 1);
+  });
+});
+
+describe('rankServicesByChain', () => {
+  it('ranks by median and shares ranks when not significantly different', () => {
+    const base = Array.from({ length: 20 }, (_, i) => 100 + i);
+    const stats = calculateAllStats([
+      { serviceName: 'slow', ethereum: chainResult('slow', 'ethereum', base.map(v => v + 100)) },
+      { serviceName: 'fast', ethereum: chainResult('fast', 'ethereum', base) },
+      { serviceName: 'tied', ethereum: chainResult('tied', 'ethereum', base.map(v => v + 1)) },
+    ]);
+
+    const rankings = rankServicesByChain(stats, 'ethereum');
+    assert.deepEqual(rankings.map(r => r.serviceName), ['fast', 'tied', 'slow']);
+    assert.deepEqual(rankings.map(r => r.rank), [1, 1, 3]);
+    assert.equal(rankings[1].tiedWithLeader, true);
+    assert.equal(rankings[2].tiedWithLeader, false);
+  });
+
+  it('does not chain ties past the leader of a rank', () => {
+    // Each service is a tie with its neighbour (p ≈ 0.053), but c is significantly slower than a
+    const base = Array.from({ length: 20 }, (_, i) => 100 + i);
+    const stats = calculateAllStats([
+      { serviceName: 'a', ethereum: chainResult('a', 'ethereum', base) },
+      { serviceName: 'b', ethereum: chainResult('b', 'ethereum', base.map(v => v + 4)) },
+      { serviceName: 'c', ethereum: chainResult('c', 'ethereum', base.map(v => v + 8)) },
+    ]);
+
+    const rankings = rankServicesByChain(stats, 'ethereum');
+    assert.deepEqual(rankings.map(r => [r.serviceName, r.rank, r.tiedWithLeader]), [
+      ['a', 1, false],
+      ['b', 1, true],
+      ['c', 3, false],
+    ]);
+    assert.ok(rankings[2].pValueVsLeader! < 0.05);
+    assert.equal(rankLeader(rankings, rankings[1]).serviceName, 'a');
+  });
+
+  it('skips services without successful samples on the chain', () => {
+    const stats = calculateAllStats([
+      { serviceName: 'broken', ethereum: chainResult('broken', 'ethereum', [], 3) },
+      { serviceName: 'solana-only', solana: chainResult('solana-only', 'solana', [10]) },
+    ]);
+
+    assert.deepEqual(rankServicesByChain(stats, 'ethereum'), []);
+  });
+
+  it('ranks by p95 to favour services with a short tail', () => {
+    const stats = calculateAllStats([
+      { serviceName: 'spiky', ethereum: chainResult('spiky', 'ethereum', [...Array(12).fill(100), ...Array(8).fill(600)]) },
+      { serviceName: 'steady', ethereum: chainResult('steady', 'ethereum', Array(20).fill(150)) },
+    ]);
+
+    assert.deepEqual(rankServicesByChain(stats, 'ethereum').map(r => r.serviceName), ['spiky', 'steady']);
+
+    const rankings = rankServicesByChain(stats, 'ethereum', 'message', 'p95');
+    assert.deepEqual(rankings.map(r => r.serviceName), ['steady', 'spiky']);
+    assert.deepEqual(rankings.map(r => r.score), [150, 600]);
+    assert.deepEqual(rankings.map(r => r.rank), [1, 2]);
+    assert.equal(rankings[1].pValueVsLeader, undefined);
+  });
+
+  it('ranks by trimmed mean with a significance test', () => {
+    const base = Array.from({ length: 20 }, (_, i) => 100 + i);
+    const stats = calculateAllStats([
+      { serviceName: 'slow', ethereum: chainResult('slow', 'ethereum', base.map(v => v + 100)) },
+      { serviceName: 'fast', ethereum: chainResult('fast', 'ethereum', [...base.slice(1), 5000]) },
+    ]);
+
+    const rankings = rankServicesByChain(stats, 'ethereum', 'message', 'trimmed-mean');
+    assert.deepEqual(rankings.map(r => r.serviceName), ['fast', 'slow']);
+    assert.equal(rankings[0].score, rankings[0].trimmedMean);
+    assert.equal(rankings[0].outlierCount, 1);
+    assert.ok(rankings[1].pValueVsLeader! < 0.05);
+  });
+
+  it('penalizes failures in the composite score', () => {
+    const stats = calculateAllStats([
+      { serviceName: 'flaky', ethereum: chainResult('flaky', 'ethereum', Array(20).fill(100), 20) },
+      { serviceName: 'reliable', ethereum: chainResult('reliable', 'ethereum', Array(20).fill(150)) },
+    ]);
+
+    assert.deepEqual(rankServicesByChain(stats, 'ethereum').map(r => r.serviceName), ['flaky', 'reliable']);
+
+    const rankings = rankServicesByChain(stats, 'ethereum', 'message', 'composite');
+    assert.deepEqual(rankings.map(r => r.serviceName), ['reliable', 'flaky']);
+    assert.deepEqual(rankings.map(r => r.score), [150, 200]);
+  });
+});
@@ -5,14 +5,87 @@
  * Prevents bias from different implementations and ensures consistency.
  */
 
-import type { BenchmarkResult, ChainBenchmarkResult, SigningResult } from './runner.js';
-import { capitalize } from './utils.js';
+import type { BenchmarkResult, ChainBenchmarkResult, MessageInfo, SigningOperation, SigningResult } from './runner.js';
+import {
+  describeErrorCategory,
+  mergeBreakdowns,
+  sortBreakdown,
+  tallyErrors,
+  type ErrorBreakdownEntry,
+} from './errors.js';
+import { describeHttpPhase, HTTP_PHASES, type HttpPhase } from './http-phases.js';
+import { HISTOGRAM_RELATIVE_ERROR, LatencyHistogram } from './streaming.js';
+import { capitalize, describeOperation, formatDuration, resultLatency } from './utils.js';
+
+/** Number of bootstrap resamples used for confidence intervals */
+const BOOTSTRAP_RESAMPLES = 1000;
+
+/** Samples larger than this get rank-based confidence intervals instead of bootstrapped ones */
+const BOOTSTRAP_MAX_SAMPLES = 2000;
+
+/** Confidence level for intervals and significance tests */
+const CONFIDENCE_LEVEL = 0.95;
+
+/** Two-sided standard normal quantile for CONFIDENCE_LEVEL */
+const CONFIDENCE_Z = 1.959963984540054;
+
+/** Reported latency may exceed the harness wall-clock time by this much (timer jitter) */
+const TIMING_TOLERANCE_MS = 1;
+
+/** Rows of the terminal latency histogram */
+const HISTOGRAM_BINS = 8;
+
+/** Width of the longest terminal histogram bar, in characters */
+const HISTOGRAM_BAR_WIDTH = 30;
+
+/** Maximum width of per-iteration sparklines; longer runs are averaged into this many points */
+const SPARKLINE_WIDTH = 60;
+
+/** Width of the spread chart shown with the rankings, in characters */
+const SPREAD_CHART_WIDTH = 40;
+
+/** Sparkline characters, lowest to highest */
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/** Partial block characters for histogram bar ends, in eighths */
+const BAR_EIGHTHS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉'];
+
+/** Share of the samples dropped from each end for the trimmed mean */
+const TRIM_FRACTION = 0.1;
+
+/** Tukey fence: samples this many IQRs beyond the quartiles may be outliers */
+const OUTLIER_IQR_MULTIPLIER = 1.5;
+
+/** Modified z-score (Iglewicz and Hoaglin) beyond which samples may be outliers */
+const OUTLIER_MODIFIED_Z = 3.5;
+
+/** Scales the MAD to the standard deviation of normally distributed data */
+const MAD_TO_STANDARD_DEVIATION = 1.4826;
+
+/** Weights of the median and p95 in the composite ranking score */
+const COMPOSITE_MEDIAN_WEIGHT = 0.6;
+const COMPOSITE_P95_WEIGHT = 0.4;
+
+/** Share of the wall-clock time left untimed by the adapter before it is flagged */
+const MAX_UNTIMED_SHARE = 0.5;
+
+/** Untimed time below this is never flagged, however large its share */
+const MIN_UNTIMED_MS = 5;
+
+/**
+ * Confidence interval for a statistic
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
 
 /**
  * Statistics for a single chain benchmark
  */
 export interface ChainStats {
   chain: 'ethereum' | 'solana';
+  operation: SigningOperation;
   serviceName: string;
   iterations: number;
   mean: number;
@@ -21,15 +94,126 @@ export interface ChainStats {
   max: number;
   p95: number;
   p99: number;
+  /** Bootstrap 95% confidence interval for the median */
+  medianCI: ConfidenceInterval;
+  /** Bootstrap 95% confidence interval for p95 */
+  p95CI: ConfidenceInterval;
   standardDeviation: number;
   variance: number;
   total: number;
+  /** Mean without the fastest and slowest 10% of samples (of the random sample in streaming mode) */
+  trimmedMean: number;
+  /** Median absolute deviation from the median (of the random sample in streaming mode) */
+  mad: number;
+  /** Extreme samples; they are flagged only and still count in every other statistic */
+  outliers: OutlierStats;
   successCount: number;
   errorCount: number;
   successRate: number;
+  /** Sorted latencies (a uniform random sample of them in streaming mode) */
   latencies: number[];
+  /** Latency of each measured iteration in order, null where it failed (exact mode only) */
+  iterationLatencies?: (number | null)[];
   verifiedCount: number;
   verificationFailures: number;
+  /** Concurrency level the samples were collected at (peak in flight in open-loop mode) */
+  concurrency: number;
+  /** Successful signatures per second of wall-clock run time */
+  throughput: number;
+  /** Target request rate when run in open-loop mode */
+  ratePerSecond?: number;
+  /** Per-interval statistics for duration-based runs */
+  intervals?: IntervalStats[];
+  /** Worst-case relative error of the percentiles when computed from a streaming histogram */
+  percentileErrorBound?: number;
+  /** Calls that hit the per-call timeout, including ones that were retried */
+  timeoutCount?: number;
+  /** Extra calls made by the retry policy */
+  retryCount?: number;
+  /** Failures (including verification failures and retried calls) by category */
+  errorBreakdown?: ErrorBreakdownEntry[];
+  /** Cross-check of adapter-reported latency against the harness wall-clock time */
+  timingCheck?: TimingCheck;
+  /** Where the HTTP time went, when phase tracing was enabled */
+  httpPhases?: HttpPhaseStats;
+  /** Corpus message that was signed (corpus stats only) */
+  message?: MessageInfo;
+  /** Instance creation and initialization time per iteration (cold mode only) */
+  coldStart?: ColdStartStats;
+}
+
+/**
+ * Samples far from the bulk of a chain benchmark's latencies
+ *
+ * A sample is an outlier when it lies both beyond the Tukey fences
+ * (1.5 IQR outside the quartiles) and more than 3.5 modified z-scores
+ * (MAD-based) from the median, so a wide but consistent spread is not flagged.
+ */
+export interface OutlierStats {
+  /** Number of outliers (over every recorded latency in streaming mode) */
+  count: number;
+  /** Samples below `lower` or above `upper` are outliers */
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Cost of starting from a fresh service instance on every iteration
+ */
+export interface ColdStartStats {
+  /** Iterations that created a fresh instance */
+  samples: number;
+  initMedian: number;
+  initP95: number;
+  /** Initialization plus signing, over the successful iterations */
+  totalMedian: number;
+  totalP95: number;
+}
+
+/**
+ * HTTP phase breakdown of the successful calls of a chain benchmark
+ */
+export interface HttpPhaseStats {
+  /** Successful calls with HTTP timings */
+  samples: number;
+  /** Calls that only used already open connections */
+  reusedCount: number;
+  /** Median milliseconds per call in each phase, over the calls that went through it */
+  medians: Partial<Record<HttpPhase, number>>;
+}
+
+/**
+ * Comparison of adapter-reported latency with the runner's wall-clock time
+ *
+ * Overhead is wall-clock minus reported latency: the part of the signing
+ * call the adapter did not time (request preparation, response parsing).
+ */
+export interface TimingCheck {
+  /** Successful calls with both measurements */
+  samples: number;
+  overheadMedian: number;
+  overheadP95: number;
+  overheadMax: number;
+  wallClockMedian: number;
+  /** Calls whose reported latency exceeded the wall-clock time */
+  overReportedCount: number;
+  /** Why the adapter's self-reported latency looks implausible, if it does */
+  warnings: string[];
+}
+
+/**
+ * Statistics for one time window of a duration-based run
+ */
+export interface IntervalStats {
+  /** Window start in milliseconds since the measured iterations began */
+  startMs: number;
+  /** Window end in milliseconds since the measured iterations began */
+  endMs: number;
+  successCount: number;
+  errorCount: number;
+  median: number;
+  p95: number;
+  p99: number;
 }
 
 /**
@@ -37,27 +221,57 @@ export interface ChainStats {
  */
 export interface ServiceStats {
   serviceName: string;
+  /** Time initialize() took before the first call */
+  initMs?: number;
+  /** Latency of the first signing call after initialization (warmup or not), if it succeeded */
+  firstCallMs?: number;
   ethereum?: ChainStats;
   solana?: ChainStats;
-  consolidated?: ChainStats; // Combined stats when both chains are run
+  operations?: ChainStats[]; // Other signing operations (typed data, transactions)
+  corpus?: ChainStats[]; // Message signing per corpus message
+  consolidated?: ChainStats; // Combined message-signing stats when both chains are run
 }
 
 // ===== HELPER FUNCTIONS =====
 
 /**
- * Get chain stats from service stats
+ * The per-chain fields of service stats, whatever form the chain stats take
+ */
+type ChainStatsSet<T> = { ethereum?: T; solana?: T; operations?: T[] };
+
+/**
+ * Get chain stats for an operation from service stats
  */
-function getChainStats(service: ServiceStats, chain: 'ethereum' | 'solana'): ChainStats | undefined {
-  return chain === 'ethereum' ? service.ethereum : service.solana;
+export function getChainStats<T extends Pick<ChainStats, 'chain' | 'operation'> = ChainStats>(
+  service: ChainStatsSet<T>,
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation = 'message'
+): T | undefined {
+  if (operation === 'message') {
+    return chain === 'ethereum' ? service.ethereum : service.solana;
+  }
+  return service.operations?.find(s => s.chain === chain && s.operation === operation);
+}
+
+/**
+ * List every chain/operation stats entry of a service (excluding consolidated)
+ */
+export function listChainStats<T = ChainStats>(service: ChainStatsSet<T>): T[] {
+  return [service.ethereum, service.solana, ...(service.operations ?? [])]
+    .filter((s): s is T => s !== undefined);
 }
 
 /**
  * Extract latencies from signing results
+ *
+ * In open-loop mode the delay between the scheduled and actual send time is
+ * included, and so is the time spent on retries, so latency is measured from
+ * when the request should first have gone out.
  */
-function extractLatencies(results: SigningResult[]): number[] {
+export function extractLatencies(results: SigningResult[]): number[] {
   return results
-    .filter(r => r.success && r.apiLatencyMs !== undefined)
-    .map(r => r.apiLatencyMs!);
+    .map(resultLatency)
+    .filter((latency): latency is number => latency !== undefined);
 }
 
 /**
@@ -69,10 +283,159 @@ function countVerifications(results: SigningResult[]): { verifiedCount: number;
   return { verifiedCount, verificationFailures };
 }
 
+/**
+ * Per-category error breakdown of a chain benchmark
+ */
+function breakdownErrors(result: ChainBenchmarkResult): ErrorBreakdownEntry[] {
+  return result.streaming ? sortBreakdown(result.streaming.errorBreakdown) : tallyErrors(result.results);
+}
+
+/**
+ * Flag implausible adapter timing
+ */
+function assessTiming(check: Omit<TimingCheck, 'warnings'>, maxOverReportMs: number): TimingCheck {
+  const warnings: string[] = [];
+
+  if (check.overReportedCount > 0) {
+    warnings.push(
+      `${check.overReportedCount} of ${check.samples} calls reported more latency than the harness measured ` +
+      `(by up to ${maxOverReportMs.toFixed(2)}ms)`
+    );
+  }
+
+  if (check.overheadMedian >= MIN_UNTIMED_MS && check.overheadMedian > check.wallClockMedian * MAX_UNTIMED_SHARE) {
+    warnings.push(
+      `reported latency leaves out ${check.overheadMedian.toFixed(2)}ms of a ` +
+      `${check.wallClockMedian.toFixed(2)}ms call (median)`
+    );
+  }
+
+  return { ...check, warnings };
+}
+
+/**
+ * Cross-check adapter-reported latency against the harness wall-clock time
+ */
+function checkTiming(result: ChainBenchmarkResult): TimingCheck | undefined {
+  if (result.streaming) {
+    const { overhead, wallClock, overReportedCount, maxOverReportMs } = result.streaming.timing;
+    if (wallClock.count === 0) return undefined;
+
+    return assessTiming({
+      samples: wallClock.count,
+      overheadMedian: overhead.percentile(50),
+      overheadP95: overhead.percentile(95),
+      overheadMax: overhead.max,
+      wallClockMedian: wallClock.percentile(50),
+      overReportedCount,
+    }, maxOverReportMs);
+  }
+
+  const timed = result.results.filter(r => r.success && r.apiLatencyMs !== undefined && r.wallClockMs !== undefined);
+  if (timed.length === 0) return undefined;
+
+  const overheads = timed.map(r => r.wallClockMs! - r.apiLatencyMs!).sort((a, b) => a - b);
+  const wallClocks = timed.map(r => r.wallClockMs!).sort((a, b) => a - b);
+  const overReported = overheads.filter(o => o < -TIMING_TOLERANCE_MS);
+
+  return assessTiming({
+    samples: timed.length,
+    overheadMedian: getPercentile(overheads, 50),
+    overheadP95: getPercentile(overheads, 95),
+    overheadMax: overheads[overheads.length - 1],
+    wallClockMedian: getPercentile(wallClocks, 50),
+    overReportedCount: overReported.length,
+  }, overReported.length > 0 ? -overReported[0] : 0);
+}
+
+/**
+ * Median time per HTTP phase and connection reuse of a chain benchmark
+ */
+function summarizeHttpPhases(result: ChainBenchmarkResult): HttpPhaseStats | undefined {
+  const medians: Partial<Record<HttpPhase, number>> = {};
+
+  if (result.streaming) {
+    const { samples, reusedCount, histograms } = result.streaming.httpPhases;
+    if (samples === 0) return undefined;
+
+    for (const phase of HTTP_PHASES) {
+      const histogram = histograms.get(phase);
+      if (histogram) medians[phase] = histogram.percentile(50);
+    }
+    return { samples, reusedCount, medians };
+  }
+
+  const traced = result.results.filter(r => r.success && r.httpPhases !== undefined).map(r => r.httpPhases!);
+  if (traced.length === 0) return undefined;
+
+  for (const phase of HTTP_PHASES) {
+    const durations = traced
+      .map(timings => timings.phases[phase])
+      .filter((ms): ms is number => ms !== undefined)
+      .sort((a, b) => a - b);
+    if (durations.length > 0) medians[phase] = getPercentile(durations, 50);
+  }
+
+  return {
+    samples: traced.length,
+    reusedCount: traced.filter(timings => timings.connectionReused).length,
+    medians,
+  };
+}
+
+/**
+ * Latency of a service's first call, if it succeeded
+ */
+function firstCallLatency(result: BenchmarkResult): number | undefined {
+  return result.firstCall && resultLatency(result.firstCall);
+}
+
+/**
+ * Initialization time of cold-mode iterations
+ */
+function summarizeColdStart(result: ChainBenchmarkResult): ColdStartStats | undefined {
+  const cold = result.results.filter(r => r.initMs !== undefined);
+  if (result.streaming || cold.length === 0) return undefined;
+
+  const inits = cold.map(r => r.initMs!).sort((a, b) => a - b);
+  const totals = cold
+    .filter(r => r.success && r.apiLatencyMs !== undefined)
+    .map(r => r.initMs! + r.apiLatencyMs!)
+    .sort((a, b) => a - b);
+
+  return {
+    samples: cold.length,
+    initMedian: getPercentile(inits, 50),
+    initP95: getPercentile(inits, 95),
+    totalMedian: getPercentile(totals, 50),
+    totalP95: getPercentile(totals, 95),
+  };
+}
+
+/**
+ * Count timed-out and retried calls of a chain benchmark
+ */
+function countRetries(result: ChainBenchmarkResult): { timeoutCount: number; retryCount: number } {
+  if (result.streaming) {
+    return { timeoutCount: result.streaming.timeoutCount, retryCount: result.streaming.retryCount };
+  }
+
+  let timeoutCount = 0;
+  let retryCount = 0;
+  for (const r of result.results) {
+    if (r.timedOut) timeoutCount++;
+    for (const retried of r.retriedAttempts ?? []) {
+      retryCount++;
+      if (retried.timedOut) timeoutCount++;
+    }
+  }
+  return { timeoutCount, retryCount };
+}
+
 /**
  * Calculate percentile from sorted array
  */
-function getPercentile(sortedArray: number[], percentile: number): number {
+export function getPercentile(sortedArray: number[], percentile: number): number {
   if (sortedArray.length === 0) return 0;
 
   const index = (percentile / 100) * (sortedArray.length - 1);
@@ -88,16 +451,178 @@ function getPercentile(sortedArray: number[], percentile: number): number {
   return sortedArray[lower] * (1 - weight) + sortedArray[upper] * weight;
 }
 
+/**
+ * Mean of a sorted sample after dropping a share of it from each end
+ */
+export function trimmedMean(sortedArray: number[], fraction: number = TRIM_FRACTION): number {
+  if (sortedArray.length === 0) return 0;
+
+  const cut = Math.floor(sortedArray.length * fraction);
+  const kept = sortedArray.slice(cut, sortedArray.length - cut);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+}
+
+/**
+ * Median absolute deviation from the median
+ */
+export function medianAbsoluteDeviation(values: number[], median: number): number {
+  const deviations = values.map(value => Math.abs(value - median)).sort((a, b) => a - b);
+  return getPercentile(deviations, 50);
+}
+
+/**
+ * Range outside which samples are outliers, from the quartiles and the MAD
+ *
+ * Outliers must fail both tests, so the range is the wider of the Tukey
+ * fences and the modified z-score bounds.
+ */
+function outlierRange(q1: number, median: number, q3: number, mad: number): ConfidenceInterval {
+  const iqr = q3 - q1;
+  const madRange = OUTLIER_MODIFIED_Z * MAD_TO_STANDARD_DEVIATION * mad;
+  return {
+    lower: Math.min(q1 - OUTLIER_IQR_MULTIPLIER * iqr, median - madRange),
+    upper: Math.max(q3 + OUTLIER_IQR_MULTIPLIER * iqr, median + madRange),
+  };
+}
+
+/**
+ * Flag the outliers of a sorted sample
+ */
+export function detectOutliers(sortedArray: number[]): OutlierStats {
+  const median = getPercentile(sortedArray, 50);
+  const { lower, upper } = outlierRange(
+    getPercentile(sortedArray, 25),
+    median,
+    getPercentile(sortedArray, 75),
+    medianAbsoluteDeviation(sortedArray, median)
+  );
+  return {
+    count: sortedArray.filter(value => value < lower || value > upper).length,
+    lower,
+    upper,
+  };
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32)
+ *
+ * Bootstrap resampling uses a fixed seed so the same samples always produce
+ * the same confidence intervals.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Percentile bootstrap confidence interval for a percentile of the samples
+ */
+function bootstrapPercentileCI(latencies: number[], percentile: number): ConfidenceInterval {
+  if (latencies.length === 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const random = createRandom(0x51a7e);
+  const estimates: number[] = [];
+  const resample = new Array<number>(latencies.length);
+
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    for (let j = 0; j < latencies.length; j++) {
+      resample[j] = latencies[Math.floor(random() * latencies.length)];
+    }
+    resample.sort((a, b) => a - b);
+    estimates.push(getPercentile(resample, percentile));
+  }
+
+  estimates.sort((a, b) => a - b);
+  const alpha = (1 - CONFIDENCE_LEVEL) / 2;
+  return {
+    lower: getPercentile(estimates, alpha * 100),
+    upper: getPercentile(estimates, (1 - alpha) * 100),
+  };
+}
+
+/**
+ * Standard normal cumulative distribution function
+ *
+ * Uses the Abramowitz-Stegun approximation of erf (error < 1.5e-7).
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided Mann-Whitney U test
+ *
+ * Non-parametric test of whether one latency distribution tends to be lower
+ * than the other. Uses the normal approximation with tie correction.
+ *
+ * @returns p-value (1 when either sample is empty)
+ */
+export function mannWhitneyU(a: number[], b: number[]): number {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) return 1;
+
+  // Rank the pooled samples, averaging ranks for ties
+  const pooled = [
+    ...a.map(value => ({ value, group: 0 })),
+    ...b.map(value => ({ value, group: 1 })),
+  ].sort((x, y) => x.value - y.value);
+
+  let rankSumA = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < pooled.length;) {
+    let j = i;
+    while (j < pooled.length && pooled[j].value === pooled[i].value) j++;
+
+    const tieCount = j - i;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (pooled[k].group === 0) rankSumA += averageRank;
+    }
+    tieCorrection += tieCount ** 3 - tieCount;
+    i = j;
+  }
+
+  const n = n1 + n2;
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+  const meanU = (n1 * n2) / 2;
+  const varianceU = ((n1 * n2) / 12) * ((n + 1) - tieCorrection / (n * (n - 1)));
+  if (varianceU <= 0) return 1;
+
+  // Continuity correction
+  const z = (Math.abs(u - meanU) - 0.5) / Math.sqrt(varianceU);
+  return Math.min(1, 2 * (1 - normalCdf(Math.max(0, z))));
+}
+
+/**
+ * Calculate throughput in signatures per second
+ */
+function calculateThroughput(successCount: number, durationMs: number): number {
+  return durationMs > 0 ? successCount / (durationMs / 1000) : 0;
+}
+
 /**
  * Compute statistics from latencies
  */
-function computeStats(
+export function computeStats(
   latencies: number[],
   successCount: number,
   errorCount: number,
   verifiedCount: number,
   verificationFailures: number
-): Omit<ChainStats, 'chain' | 'serviceName'> {
+): Omit<ChainStats, 'chain' | 'operation' | 'serviceName' | 'concurrency' | 'throughput'> {
   const iterations = successCount + errorCount;
 
   if (latencies.length === 0) {
@@ -109,9 +634,14 @@ function computeStats(
       max: 0,
       p95: 0,
       p99: 0,
+      medianCI: { lower: 0, upper: 0 },
+      p95CI: { lower: 0, upper: 0 },
       standardDeviation: 0,
       variance: 0,
       total: 0,
+      trimmedMean: 0,
+      mad: 0,
+      outliers: { count: 0, lower: 0, upper: 0 },
       successCount,
       errorCount,
       successRate: 0,
@@ -135,10 +665,17 @@ function computeStats(
   const p95 = getPercentile(sortedLatencies, 95);
   const p99 = getPercentile(sortedLatencies, 99);
 
+  // Confidence intervals
+  const medianCI = percentileCI(sortedLatencies, 50);
+  const p95CI = percentileCI(sortedLatencies, 95);
+
   // Variability metrics
   const variance = latencies.reduce((sum, lat) => sum + Math.pow(lat - mean, 2), 0) / latencies.length;
   const standardDeviation = Math.sqrt(variance);
 
+  // Robust metrics; outliers are flagged, not removed
+  const outliers = detectOutliers(sortedLatencies);
+
   // Success metrics
   const successRate = iterations > 0 ? (successCount / iterations) * 100 : 0;
 
@@ -150,9 +687,14 @@ function computeStats(
     max,
     p95,
     p99,
+    medianCI,
+    p95CI,
     standardDeviation,
     variance,
     total,
+    trimmedMean: trimmedMean(sortedLatencies),
+    mad: medianAbsoluteDeviation(sortedLatencies, median),
+    outliers,
     successCount,
     errorCount,
     successRate,
@@ -162,11 +704,170 @@ function computeStats(
   };
 }
 
+/**
+ * Distribution-free confidence interval for a percentile of `n` ranked samples
+ *
+ * Uses the normal approximation to the binomial distribution of the
+ * sample rank, so no resampling is needed. Accurate for large samples.
+ *
+ * @param valueAtRank - Sample at a 0-based rank in sorted order; must clamp out-of-range ranks
+ */
+function rankPercentileCI(n: number, percentile: number, valueAtRank: (rank: number) => number): ConfidenceInterval {
+  if (n === 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const q = percentile / 100;
+  const spread = CONFIDENCE_Z * Math.sqrt(n * q * (1 - q));
+  return {
+    lower: valueAtRank(Math.floor(n * q - spread)),
+    upper: valueAtRank(Math.ceil(n * q + spread)),
+  };
+}
+
+/**
+ * Confidence interval for a percentile of a streaming histogram (no raw samples needed)
+ */
+function histogramPercentileCI(histogram: LatencyHistogram, percentile: number): ConfidenceInterval {
+  return rankPercentileCI(histogram.count, percentile, rank => histogram.valueAtRank(rank));
+}
+
+/**
+ * Confidence interval for a percentile of exact samples
+ *
+ * Small samples are bootstrapped; beyond BOOTSTRAP_MAX_SAMPLES the
+ * rank-based interval is used, which is as accurate there and costs O(1)
+ * instead of 1000 sorted resamples.
+ */
+function percentileCI(sortedLatencies: number[], percentile: number): ConfidenceInterval {
+  const n = sortedLatencies.length;
+  if (n > BOOTSTRAP_MAX_SAMPLES) {
+    return rankPercentileCI(n, percentile, rank => sortedLatencies[Math.min(Math.max(0, rank), n - 1)]);
+  }
+  return bootstrapPercentileCI(sortedLatencies, percentile);
+}
+
+/**
+ * Calculate statistics from a streaming histogram
+ *
+ * Same shape as computeStats; percentiles are within
+ * HISTOGRAM_RELATIVE_ERROR of the exact values and `latencies` holds the
+ * histogram's random sample rather than every latency.
+ */
+export function computeStreamingStats(
+  histogram: LatencyHistogram,
+  successCount: number,
+  errorCount: number,
+  verifiedCount: number,
+  verificationFailures: number
+): Omit<ChainStats, 'chain' | 'operation' | 'serviceName' | 'concurrency' | 'throughput'> {
+  const iterations = successCount + errorCount;
+  const successRate = iterations > 0 && histogram.count > 0 ? (successCount / iterations) * 100 : 0;
+
+  // The MAD comes from the random sample, but outliers are counted over every recorded latency
+  const latencies = histogram.samples.sort((a, b) => a - b);
+  const median = histogram.percentile(50);
+  const mad = medianAbsoluteDeviation(latencies, median);
+  const range = outlierRange(histogram.percentile(25), median, histogram.percentile(75), mad);
+
+  return {
+    iterations,
+    mean: histogram.mean,
+    median,
+    min: histogram.min,
+    max: histogram.max,
+    p95: histogram.percentile(95),
+    p99: histogram.percentile(99),
+    medianCI: histogramPercentileCI(histogram, 50),
+    p95CI: histogramPercentileCI(histogram, 95),
+    standardDeviation: histogram.standardDeviation,
+    variance: histogram.variance,
+    total: histogram.total,
+    trimmedMean: trimmedMean(latencies),
+    mad,
+    outliers: { count: histogram.countOutside(range.lower, range.upper), ...range },
+    successCount,
+    errorCount,
+    successRate,
+    latencies,
+    verifiedCount,
+    verificationFailures,
+    percentileErrorBound: HISTOGRAM_RELATIVE_ERROR,
+  };
+}
+
+/**
+ * Summarize the results that started within [startMs, endMs)
+ *
+ * Results without a start time (or not yet recorded) are ignored.
+ */
+export function summarizeWindow(
+  results: (SigningResult | undefined)[],
+  startMs: number,
+  endMs: number
+): IntervalStats {
+  const inWindow = results.filter((r): r is SigningResult =>
+    r?.startedAtMs !== undefined && r.startedAtMs >= startMs && r.startedAtMs < endMs
+  );
+  const latencies = extractLatencies(inWindow).sort((a, b) => a - b);
+  const successCount = inWindow.filter(r => r.success).length;
+
+  return {
+    startMs,
+    endMs,
+    successCount,
+    errorCount: inWindow.length - successCount,
+    median: getPercentile(latencies, 50),
+    p95: getPercentile(latencies, 95),
+    p99: getPercentile(latencies, 99),
+  };
+}
+
+/**
+ * Split a run into fixed-length windows and summarize each one
+ *
+ * Windows stop at the last request started, so the time spent draining
+ * in-flight requests does not add an empty window at the end.
+ */
+function calculateIntervalStats(results: SigningResult[], intervalMs: number, durationMs: number): IntervalStats[] {
+  const lastStartMs = results.reduce((last, r) => Math.max(last, r.startedAtMs ?? 0), 0);
+  const intervals: IntervalStats[] = [];
+  for (let startMs = 0; startMs <= lastStartMs; startMs += intervalMs) {
+    intervals.push(summarizeWindow(results, startMs, Math.min(startMs + intervalMs, durationMs)));
+  }
+  return intervals;
+}
+
 /**
  * Calculate statistics from chain benchmark results
  */
 function calculateChainStats(result: ChainBenchmarkResult): ChainStats {
-  const { chain, serviceName, results, successCount, errorCount } = result;
+  const {
+    chain, operation, serviceName, results, successCount, errorCount, concurrency, durationMs, busyMs, ratePerSecond,
+    summaryIntervalMs, streaming, message,
+  } = result;
+
+  if (streaming) {
+    return {
+      chain,
+      operation,
+      serviceName,
+      ...computeStreamingStats(
+        streaming.histogram, successCount, errorCount, streaming.verifiedCount, streaming.verificationFailures
+      ),
+      concurrency,
+      throughput: calculateThroughput(successCount, busyMs ?? durationMs),
+      ratePerSecond,
+      intervals: summaryIntervalMs
+        ? streaming.intervals.map((_, index) => streaming.intervalStats(index, durationMs))
+        : undefined,
+      ...countRetries(result),
+      errorBreakdown: breakdownErrors(result),
+      timingCheck: checkTiming(result),
+      httpPhases: summarizeHttpPhases(result),
+      message,
+    };
+  }
 
   const latencies = extractLatencies(results);
   const { verifiedCount, verificationFailures } = countVerifications(results);
@@ -174,8 +875,20 @@ function calculateChainStats(result: ChainBenchmarkResult): ChainStats {
 
   return {
     chain,
+    operation,
     serviceName,
     ...stats,
+    concurrency,
+    throughput: calculateThroughput(successCount, busyMs ?? durationMs),
+    ratePerSecond,
+    intervals: summaryIntervalMs ? calculateIntervalStats(results, summaryIntervalMs, durationMs) : undefined,
+    ...countRetries(result),
+    errorBreakdown: breakdownErrors(result),
+    timingCheck: checkTiming(result),
+    httpPhases: summarizeHttpPhases(result),
+    message,
+    coldStart: summarizeColdStart(result),
+    iterationLatencies: results.map(r => resultLatency(r) ?? null),
   };
 }
 
@@ -185,6 +898,8 @@ function calculateChainStats(result: ChainBenchmarkResult): ChainStats {
 function calculateServiceStats(result: BenchmarkResult): ServiceStats {
   const stats: ServiceStats = {
     serviceName: result.serviceName,
+    initMs: result.initMs,
+    firstCallMs: firstCallLatency(result),
   };
 
   if (result.ethereum) {
@@ -195,6 +910,14 @@ function calculateServiceStats(result: BenchmarkResult): ServiceStats {
     stats.solana = calculateChainStats(result.solana);
   }
 
+  if (result.operations) {
+    stats.operations = result.operations.map(calculateChainStats);
+  }
+
+  if (result.corpus) {
+    stats.corpus = result.corpus.map(calculateChainStats);
+  }
+
   // If both chains were benchmarked, create consolidated stats
   if (result.ethereum && result.solana) {
     stats.consolidated = calculateConsolidatedStats(
@@ -215,25 +938,50 @@ function calculateConsolidatedStats(
   solana: ChainBenchmarkResult,
   serviceName: string
 ): ChainStats {
-  // Combine latencies from both chains
-  const ethereumLatencies = extractLatencies(ethereum.results);
-  const solanaLatencies = extractLatencies(solana.results);
-  const allLatencies = [...ethereumLatencies, ...solanaLatencies];
-
   // Combine counts from both chains
   const successCount = ethereum.successCount + solana.successCount;
   const errorCount = ethereum.errorCount + solana.errorCount;
 
-  // Combine verification results from both chains
-  const allResults = [...ethereum.results, ...solana.results];
-  const { verifiedCount, verificationFailures } = countVerifications(allResults);
+  let stats: ReturnType<typeof computeStats>;
+  if (ethereum.streaming && solana.streaming) {
+    // Merge both chains' histograms into a fresh one
+    const histogram = new LatencyHistogram();
+    histogram.merge(ethereum.streaming.histogram);
+    histogram.merge(solana.streaming.histogram);
+
+    const verifiedCount = ethereum.streaming.verifiedCount + solana.streaming.verifiedCount;
+    const verificationFailures = ethereum.streaming.verificationFailures + solana.streaming.verificationFailures;
+    stats = computeStreamingStats(histogram, successCount, errorCount, verifiedCount, verificationFailures);
+  } else {
+    // Combine latencies from both chains
+    const ethereumLatencies = extractLatencies(ethereum.results);
+    const solanaLatencies = extractLatencies(solana.results);
+    const allLatencies = [...ethereumLatencies, ...solanaLatencies];
+
+    // Combine verification results from both chains
+    const allResults = [...ethereum.results, ...solana.results];
+    const { verifiedCount, verificationFailures } = countVerifications(allResults);
+
+    stats = computeStats(allLatencies, successCount, errorCount, verifiedCount, verificationFailures);
+  }
+
+  // Chains run one after another (or interleaved, then their busy times), so their durations add up
+  const durationMs = (ethereum.busyMs ?? ethereum.durationMs) + (solana.busyMs ?? solana.durationMs);
 
-  const stats = computeStats(allLatencies, successCount, errorCount, verifiedCount, verificationFailures);
+  const ethereumRetries = countRetries(ethereum);
+  const solanaRetries = countRetries(solana);
 
   return {
     chain: 'ethereum', // Placeholder for 'both'
+    operation: 'message',
     serviceName,
     ...stats,
+    concurrency: Math.max(ethereum.concurrency, solana.concurrency),
+    throughput: calculateThroughput(successCount, durationMs),
+    ratePerSecond: ethereum.ratePerSecond,
+    timeoutCount: ethereumRetries.timeoutCount + solanaRetries.timeoutCount,
+    retryCount: ethereumRetries.retryCount + solanaRetries.retryCount,
+    errorBreakdown: mergeBreakdowns(breakdownErrors(ethereum), breakdownErrors(solana)),
   };
 }
 
@@ -250,54 +998,555 @@ export function calculateAllStats(results: BenchmarkResult[]): ServiceStats[] {
 export interface ServiceRanking {
   serviceName: string;
   chain: 'ethereum' | 'solana';
+  operation: SigningOperation;
   rank: number;
+  /** Statistic the services were ranked by */
+  metric: RankingMetric;
+  /** Value of the ranking metric (lower is better) */
+  score: number;
   median: number;
   mean: number;
   p95: number;
+  trimmedMean: number;
+  outlierCount: number;
   successRate: number;
+  throughput: number;
+  medianCI: ConfidenceInterval;
+  /** Mann-Whitney U p-value against the first service of its rank (median and trimmed mean only) */
+  pValueVsLeader?: number;
+  /** True when not significantly different from the first service of its rank, and so sharing that rank */
+  tiedWithLeader: boolean;
+  /** True when the adapter's self-reported latency failed the wall-clock cross-check */
+  timingSuspect: boolean;
 }
 
 /**
- * Rank services by median latency for a specific chain
+ * Statistic services are ranked by
+ *
+ * - `median`: typical latency
+ * - `p95`: tail latency
+ * - `trimmed-mean`: mean without the fastest and slowest 10% of samples
+ * - `composite`: weighted median and p95, divided by the success rate, so a
+ *   service failing half its calls scores twice as slow
+ */
+export type RankingMetric = 'median' | 'p95' | 'trimmed-mean' | 'composite';
+
+export const RANKING_METRICS: RankingMetric[] = ['median', 'p95', 'trimmed-mean', 'composite'];
+
+/**
+ * Human-readable name of a ranking metric
+ */
+export function describeRankingMetric(metric: RankingMetric): string {
+  switch (metric) {
+    case 'median': return 'median latency';
+    case 'p95': return 'p95 latency';
+    case 'trimmed-mean': return 'trimmed mean latency';
+    case 'composite': return 'composite score';
+  }
+}
+
+/**
+ * Score of a chain benchmark under a ranking metric (lower is better)
+ */
+export function rankingScore(stats: ChainStats, metric: RankingMetric): number {
+  switch (metric) {
+    case 'median': return stats.median;
+    case 'p95': return stats.p95;
+    case 'trimmed-mean': return stats.trimmedMean;
+    case 'composite':
+      return (COMPOSITE_MEDIAN_WEIGHT * stats.median + COMPOSITE_P95_WEIGHT * stats.p95) / (stats.successRate / 100);
+  }
+}
+
+/**
+ * Rank services by a metric (median latency by default) for a specific chain and operation
+ *
+ * Each service is compared with the first service of the current rank: for
+ * median and trimmed mean with a Mann-Whitney U test, for p95 by their
+ * confidence intervals. When the difference is not significant it shares
+ * that rank instead of one being declared the winner. Comparing with the
+ * leader rather than the neighbour keeps ties from chaining, so a service
+ * significantly slower than a rank's leader never shares its rank. Composite
+ * scores have no significance test.
  */
 export function rankServicesByChain(
   stats: ServiceStats[],
-  chain: 'ethereum' | 'solana'
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation = 'message',
+  metric: RankingMetric = 'median'
 ): ServiceRanking[] {
   // Extract chain stats and filter out services without this chain or 0% success rate
   const chainStats = stats
-    .map(s => getChainStats(s, chain))
+    .map(s => getChainStats(s, chain, operation))
     .filter((s): s is ChainStats => s !== undefined && s.successRate > 0);
 
   if (chainStats.length === 0) {
     return [];
   }
 
-  // Create rankings and sort by median (lower is better)
+  // Create rankings
   const rankings = chainStats.map(stat => ({
     serviceName: stat.serviceName,
     chain,
+    operation,
+    metric,
+    score: rankingScore(stat, metric),
     median: stat.median,
     mean: stat.mean,
     p95: stat.p95,
+    trimmedMean: stat.trimmedMean,
+    outlierCount: stat.outliers.count,
     successRate: stat.successRate,
-    rank: 0,
+    throughput: stat.throughput,
+    medianCI: stat.medianCI,
+    timingSuspect: (stat.timingCheck?.warnings.length ?? 0) > 0,
+    latencies: stat.latencies,
+    p95CI: stat.p95CI,
   }));
 
-  // Sort by median (lower is better) and assign ranks
-  rankings.sort((a, b) => a.median - b.median);
-  rankings.forEach((ranking, index) => {
-    ranking.rank = index + 1;
+  // Sort by score, then median (lower is better)
+  rankings.sort((a, b) => a.score - b.score || a.median - b.median);
+
+  // Assign ranks, sharing the current rank when the difference from its
+  // first service is not statistically significant
+  const alpha = 1 - CONFIDENCE_LEVEL;
+  const ranked: ServiceRanking[] = [];
+  let leader = rankings[0];
+
+  rankings.forEach(({ latencies, p95CI, ...ranking }, index) => {
+    if (index === 0) {
+      ranked.push({ ...ranking, rank: 1, tiedWithLeader: false });
+      return;
+    }
+
+    let pValueVsLeader: number | undefined;
+    let tiedWithLeader: boolean;
+    if (metric === 'median' || metric === 'trimmed-mean') {
+      pValueVsLeader = mannWhitneyU(leader.latencies, latencies);
+      tiedWithLeader = pValueVsLeader >= alpha;
+    } else if (metric === 'p95') {
+      tiedWithLeader = p95CI.lower <= leader.p95CI.upper;
+    } else {
+      tiedWithLeader = ranking.score === leader.score;
+    }
+
+    if (!tiedWithLeader) leader = rankings[index];
+    ranked.push({
+      ...ranking,
+      rank: tiedWithLeader ? ranked[index - 1].rank : index + 1,
+      pValueVsLeader,
+      tiedWithLeader,
+    });
+  });
+
+  return ranked;
+}
+
+/**
+ * Why a service shares its rank with the rank's first service, e.g. "p=0.412"
+ */
+export function formatTieReason(ranking: ServiceRanking): string {
+  switch (ranking.metric) {
+    case 'median':
+    case 'trimmed-mean':
+      return `p=${ranking.pValueVsLeader!.toFixed(3)}`;
+    case 'p95':
+      return 'p95 confidence intervals overlap';
+    case 'composite':
+      return 'equal scores';
+  }
+}
+
+/**
+ * First service of a ranking's rank, which tied services were compared with
+ */
+export function rankLeader(rankings: ServiceRanking[], ranking: ServiceRanking): ServiceRanking {
+  return rankings.find(r => r.rank === ranking.rank)!;
+}
+
+/**
+ * Chart the latency spread of every ranked service on a shared scale
+ *
+ * Each line shows p5 to p95 as `─`, p25 to p75 as `█` and the median as `┃`,
+ * so services with similar medians but different spread are told apart.
+ *
+ * @returns undefined if no service has successful samples
+ */
+export function formatSpreadChart(
+  stats: ServiceStats[],
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation = 'message',
+  metric: RankingMetric = 'median',
+  width: number = SPREAD_CHART_WIDTH
+): string | undefined {
+  const rankings = rankServicesByChain(stats, chain, operation, metric);
+  if (rankings.length === 0) return undefined;
+
+  const rows = rankings.map(ranking => {
+    const { latencies } = getChainStats(stats.find(s => s.serviceName === ranking.serviceName)!, chain, operation)!;
+    const [p5, p25, median, p75, p95] = [5, 25, 50, 75, 95].map(p => getPercentile(latencies, p));
+    return { name: capitalize(ranking.serviceName), p5, p25, median, p75, p95 };
+  });
+
+  const min = Math.min(...rows.map(r => r.p5));
+  const max = Math.max(...rows.map(r => r.p95));
+  const column = (value: number) => max > min ? Math.round(((value - min) / (max - min)) * (width - 1)) : 0;
+  const nameWidth = Math.max(...rows.map(r => r.name.length));
+
+  const lines = rows.map(r => {
+    const chart = Array.from({ length: width }, () => ' ');
+    for (let i = column(r.p5); i <= column(r.p95); i++) chart[i] = '─';
+    for (let i = column(r.p25); i <= column(r.p75); i++) chart[i] = '█';
+    chart[column(r.median)] = '┃';
+    return `  ${r.name.padEnd(nameWidth)} ${chart.join('')} ${r.p5.toFixed(0)}-${r.p95.toFixed(0)}ms`;
+  });
+
+  const axis = `${min.toFixed(0)}ms`.padEnd(width - `${max.toFixed(0)}ms`.length) + `${max.toFixed(0)}ms`;
+  lines.push(`  ${''.padEnd(nameWidth)} ${axis}`);
+  lines.push(`  ${''.padEnd(nameWidth)} ─ p5-p95  █ p25-p75  ┃ median`);
+  return lines.join('\n');
+}
+
+/**
+ * One bar of a latency histogram
+ */
+export interface LatencyBin {
+  /** Lower bound in milliseconds (inclusive) */
+  start: number;
+  /** Upper bound in milliseconds (exclusive, except for the last bin) */
+  end: number;
+  count: number;
+}
+
+/**
+ * Count sorted latencies in equal-width bins between `min` and `max`
+ *
+ * Pass the same bounds for several services to make their histograms
+ * comparable. Latencies outside the bounds are not counted.
+ */
+export function binLatencies(
+  latencies: number[],
+  binCount: number,
+  min: number = latencies[0],
+  max: number = latencies[latencies.length - 1]
+): LatencyBin[] {
+  if (latencies.length === 0 || binCount < 1) return [];
+
+  // A single distinct value still gets a bar of some width
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+
+  for (const latency of latencies) {
+    if (latency < min || latency > max) continue;
+    const index = Math.min(binCount - 1, Math.floor((latency - min) / width));
+    bins[index].count++;
+  }
+  return bins;
+}
+
+/**
+ * Latency of one service against payload size on one chain
+ */
+export interface PayloadCurve {
+  serviceName: string;
+  chain: 'ethereum' | 'solana';
+  /** Corpus messages in corpus order */
+  points: ChainStats[];
+  /**
+   * Least-squares slope of the median against payload size, in ms per KB
+   *
+   * Close to zero when the message is hashed client-side, so only a fixed-size
+   * digest travels; grows when the provider receives and hashes the whole
+   * message. Undefined with fewer than two distinct sizes.
+   */
+  slopeMsPerKB?: number;
+}
+
+/**
+ * Least-squares slope of y against x, or undefined if x does not vary
+ */
+function fitSlope(points: { x: number; y: number }[]): number | undefined {
+  if (points.length < 2) return undefined;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return undefined;
+
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  return sxy / sxx;
+}
+
+/**
+ * Median latency per corpus message for one service and chain
+ *
+ * @returns undefined if the service has no corpus results on this chain
+ */
+export function calculatePayloadCurve(service: ServiceStats, chain: 'ethereum' | 'solana'): PayloadCurve | undefined {
+  const points = (service.corpus ?? []).filter(s => s.chain === chain && s.message);
+  if (points.length === 0) return undefined;
+
+  const slope = fitSlope(
+    points.filter(p => p.successCount > 0).map(p => ({ x: p.message!.bytes / 1024, y: p.median }))
+  );
+
+  return { serviceName: service.serviceName, chain, points, slopeMsPerKB: slope };
+}
+
+/**
+ * Format every service's latency against payload size on one chain as a table
+ *
+ * Rows are corpus messages, columns are services. Medians from calls that
+ * partly failed or failed verification are marked with an asterisk.
+ *
+ * @returns undefined if no service has corpus results on this chain
+ */
+export function formatPayloadCurves(stats: ServiceStats[], chain: 'ethereum' | 'solana'): string | undefined {
+  const curves = stats
+    .map(s => calculatePayloadCurve(s, chain))
+    .filter((c): c is PayloadCurve => c !== undefined);
+  if (curves.length === 0) return undefined;
+
+  // Messages in corpus order, across services that may have skipped some
+  const messages = new Map<string, MessageInfo>();
+  curves.forEach(curve => curve.points.forEach(p => messages.set(p.message!.id, p.message!)));
+
+  const idWidth = Math.max('Message'.length, ...[...messages.keys()].map(id => id.length));
+  const columnWidth = Math.max(12, ...curves.map(c => c.serviceName.length + 2));
+  const row = (label: string, bytes: string, values: string[]) =>
+    `  ${label.padEnd(idWidth)} ${bytes.padStart(7)}${values.map(v => v.padStart(columnWidth)).join('')}`;
+
+  const lines = [
+    `${capitalize(chain)} (median latency):`,
+    row('Message', 'Bytes', curves.map(c => capitalize(c.serviceName))),
+  ];
+  let flagged = false;
+
+  for (const message of messages.values()) {
+    const values = curves.map(curve => {
+      const point = curve.points.find(p => p.message!.id === message.id);
+      if (!point || point.successCount === 0) return '— ';
+
+      const suspect = point.errorCount > 0 || point.verificationFailures > 0;
+      flagged ||= suspect;
+      return `${point.median.toFixed(2)}ms${suspect ? '*' : ' '}`;
+    });
+    lines.push(row(message.id, String(message.bytes), values));
+  }
+
+  lines.push(row('Slope', '', curves.map(c =>
+    c.slopeMsPerKB === undefined ? '— ' : `${c.slopeMsPerKB.toFixed(2)}ms/KB `
+  )));
+
+  if (flagged) {
+    lines.push('  * some calls failed or failed verification');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format each service's initialization time and first-call latency, fastest to initialize first
+ *
+ * @returns undefined if no service was initialized
+ */
+export function formatStartupTimes(stats: ServiceStats[]): string | undefined {
+  const initialized = stats
+    .filter(s => s.initMs !== undefined)
+    .sort((a, b) => a.initMs! - b.initMs!);
+  if (initialized.length === 0) return undefined;
+
+  return initialized.map(service => {
+    const coldStarts = listChainStats(service)
+      .filter(s => s.coldStart)
+      .map(s => `${describeOperation(s.chain, s.operation)} ${s.coldStart!.totalMedian.toFixed(2)}ms`);
+
+    let line = `  ${capitalize(service.serviceName)}: initialize ${service.initMs!.toFixed(2)}ms`;
+    if (service.firstCallMs !== undefined) line += `, first call ${service.firstCallMs.toFixed(2)}ms`;
+    if (coldStarts.length > 0) line += `\n    Cold start (init + sign, median): ${coldStarts.join(', ')}`;
+    return line;
+  }).join('\n');
+}
+
+/**
+ * Format a confidence interval for display
+ */
+export function formatCI(ci: ConfidenceInterval): string {
+  return `(95% CI ${ci.lower.toFixed(2)}-${ci.upper.toFixed(2)}ms)`;
+}
+
+/**
+ * Format throughput along with the load model it was measured under
+ */
+function formatThroughput(stats: ChainStats): string {
+  const load = stats.ratePerSecond
+    ? `target ${stats.ratePerSecond} req/s, peak ${stats.concurrency} in flight`
+    : `concurrency ${stats.concurrency}`;
+  return `${stats.throughput.toFixed(2)} sig/s (${load})`;
+}
+
+/**
+ * Format one interval summary on a single line
+ */
+export function formatIntervalStats(stats: IntervalStats): string {
+  return `${stats.successCount} ok, ${stats.errorCount} errors, ` +
+    `median ${stats.median.toFixed(2)}ms, p95 ${stats.p95.toFixed(2)}ms, p99 ${stats.p99.toFixed(2)}ms`;
+}
+
+/**
+ * Format the per-category error breakdown, with example messages
+ */
+function formatErrorBreakdown(breakdown: ErrorBreakdownEntry[]): string {
+  let output = '\n  Errors by category:';
+  breakdown.forEach(entry => {
+    const retried = entry.retriedCount > 0 ? ` (+${entry.retriedCount} retried)` : '';
+    output += `\n    ${describeErrorCategory(entry.category)}: ${entry.count}${retried}`;
+    entry.examples.forEach(example => {
+      output += `\n      e.g. ${example}`;
+    });
+  });
+  return output;
+}
+
+/**
+ * Format the timing cross-check on one line, plus any warnings
+ */
+function formatTimingCheck(check: TimingCheck): string {
+  let output = `\n  Timing check: ${check.overheadMedian.toFixed(2)}ms median / ` +
+    `${check.overheadP95.toFixed(2)}ms p95 untimed overhead per call`;
+  check.warnings.forEach(warning => {
+    output += `\n  ⚠️  Implausible adapter timing: ${warning}`;
   });
+  return output;
+}
 
-  return rankings;
+/**
+ * Format the median time per HTTP phase and how often connections were reused
+ */
+function formatHttpPhases(stats: HttpPhaseStats): string {
+  const phases = HTTP_PHASES
+    .filter(phase => stats.medians[phase] !== undefined)
+    .map(phase => `${describeHttpPhase(phase)} ${stats.medians[phase]!.toFixed(2)}ms`);
+
+  return `\n  HTTP phases (median): ${phases.join(', ')}` +
+    `\n  Connection reused: ${stats.reusedCount}/${stats.samples} calls`;
+}
+
+/**
+ * A horizontal bar `value / max` of `width` characters, with eighth-block precision
+ *
+ * Non-zero values always get at least a sliver so they stand out from empty bins.
+ */
+function formatBar(value: number, max: number, width: number): string {
+  if (value <= 0 || max <= 0) return '';
+  const eighths = Math.max(1, Math.round((value / max) * width * 8));
+  return '█'.repeat(Math.floor(eighths / 8)) + BAR_EIGHTHS[eighths % 8];
+}
+
+/**
+ * Format sorted latencies as a compact histogram, one line per bin
+ */
+export function formatHistogram(latencies: number[], bins: number = HISTOGRAM_BINS): string[] {
+  const counts = binLatencies(latencies, bins);
+  const maxCount = Math.max(...counts.map(bin => bin.count));
+  const ranges = counts.map(bin => `${bin.start.toFixed(1)}-${bin.end.toFixed(1)}ms`);
+  const rangeWidth = Math.max(...ranges.map(range => range.length));
+
+  return counts.map((bin, index) =>
+    `${ranges[index].padStart(rangeWidth)} ${formatBar(bin.count, maxCount, HISTOGRAM_BAR_WIDTH).padEnd(HISTOGRAM_BAR_WIDTH)} ${bin.count}`
+  );
+}
+
+/**
+ * Format per-iteration latencies as a sparkline
+ *
+ * Runs longer than `width` are averaged into `width` points. Points without
+ * a successful call are shown as `×`.
+ */
+export function formatSparkline(values: (number | null)[], width: number = SPARKLINE_WIDTH): string {
+  const pointCount = Math.min(values.length, width);
+  const points = Array.from({ length: pointCount }, (_, i) => {
+    const bucket = values
+      .slice(Math.floor((i * values.length) / pointCount), Math.floor(((i + 1) * values.length) / pointCount))
+      .filter((v): v is number => v !== null);
+    return bucket.length > 0 ? bucket.reduce((sum, v) => sum + v, 0) / bucket.length : null;
+  });
+
+  const present = points.filter((p): p is number => p !== null);
+  const min = Math.min(...present);
+  const span = Math.max(...present) - min;
+
+  return points.map(p => {
+    if (p === null) return '×';
+    const level = span > 0 ? Math.round(((p - min) / span) * (SPARK_CHARS.length - 1)) : 0;
+    return SPARK_CHARS[level];
+  }).join('');
+}
+
+/**
+ * Format the latency histogram and per-iteration sparkline of a chain benchmark
+ */
+function formatDistribution(stats: ChainStats): string {
+  let output = '';
+  if (stats.latencies.length >= 2) {
+    output += '\n  Distribution:';
+    formatHistogram(stats.latencies).forEach(line => {
+      output += `\n    ${line}`;
+    });
+  }
+
+  const successful = stats.iterationLatencies?.filter((l): l is number => l !== null) ?? [];
+  if (stats.iterationLatencies && successful.length >= 2) {
+    // Runs can have far more iterations than fit in a spread argument list
+    const min = successful.reduce((a, b) => Math.min(a, b));
+    const max = successful.reduce((a, b) => Math.max(a, b));
+    output += `\n  Per iteration: ${formatSparkline(stats.iterationLatencies)} ` +
+      `(${min.toFixed(2)}-${max.toFixed(2)}ms)`;
+  }
+  return output;
+}
+
+/**
+ * Format the trimmed mean, MAD and outliers of a chain benchmark
+ */
+function formatRobustStats(stats: ChainStats): string {
+  let output = `\n  Trimmed Mean (${TRIM_FRACTION * 100}%): ${stats.trimmedMean.toFixed(2)}ms\n  MAD: ${stats.mad.toFixed(2)}ms`;
+  const { count, lower, upper } = stats.outliers;
+  if (count > 0) {
+    output += `\n  Outliers: ${count} outside ${Math.max(0, lower).toFixed(2)}-${upper.toFixed(2)}ms (kept in all statistics)`;
+  }
+  return output;
+}
+
+/**
+ * Format a service's first-call latency as a suffix to its initialization time
+ */
+function formatFirstCall(stats: ServiceStats): string {
+  return stats.firstCallMs !== undefined ? `, first call: ${stats.firstCallMs.toFixed(2)}ms` : '';
+}
+
+/**
+ * Format the cold-start cost of a chain benchmark
+ */
+function formatColdStart(stats: ChainStats): string {
+  let output = '';
+  if (stats.coldStart) {
+    const { initMedian, initP95, totalMedian, totalP95 } = stats.coldStart;
+    output += `\n  Cold start: init ${initMedian.toFixed(2)}ms median / ${initP95.toFixed(2)}ms p95, ` +
+      `init + sign ${totalMedian.toFixed(2)}ms median / ${totalP95.toFixed(2)}ms p95`;
+  }
+  return output;
 }
 
 /**
  * Format chain statistics for display
  */
 function formatChainStats(stats: ChainStats): string {
-  const chainName = capitalize(stats.chain);
+  const chainName = describeOperation(stats.chain, stats.operation);
   let output = `${chainName}:
   Iterations: ${stats.iterations} (${stats.successCount} success, ${stats.errorCount} errors)
   Success Rate: ${stats.successRate.toFixed(1)}%
@@ -307,13 +1556,45 @@ function formatChainStats(stats: ChainStats): string {
     output += `\n  ⚠️  Verification failures: ${stats.verificationFailures}`;
   }
 
+  if (stats.timeoutCount || stats.retryCount) {
+    output += `\n  Timeouts: ${stats.timeoutCount ?? 0}, Retries: ${stats.retryCount ?? 0}`;
+  }
+
+  if (stats.errorBreakdown?.length) {
+    output += formatErrorBreakdown(stats.errorBreakdown);
+  }
+
   output += `
   Mean: ${stats.mean.toFixed(2)}ms
-  Median: ${stats.median.toFixed(2)}ms
-  P95: ${stats.p95.toFixed(2)}ms
+  Median: ${stats.median.toFixed(2)}ms ${formatCI(stats.medianCI)}
+  P95: ${stats.p95.toFixed(2)}ms ${formatCI(stats.p95CI)}
   P99: ${stats.p99.toFixed(2)}ms
   Range: ${stats.min.toFixed(2)}ms - ${stats.max.toFixed(2)}ms
-  Std Dev: ${stats.standardDeviation.toFixed(2)}ms`;
+  Std Dev: ${stats.standardDeviation.toFixed(2)}ms${formatRobustStats(stats)}
+  Throughput: ${formatThroughput(stats)}`;
+
+  output += formatColdStart(stats);
+
+  if (stats.timingCheck) {
+    output += formatTimingCheck(stats.timingCheck);
+  }
+
+  if (stats.httpPhases) {
+    output += formatHttpPhases(stats.httpPhases);
+  }
+
+  if (stats.percentileErrorBound !== undefined) {
+    output += `\n  Percentiles: streaming histogram, within ±${(stats.percentileErrorBound * 100).toFixed(2)}%`;
+  }
+
+  if (stats.intervals?.length) {
+    output += '\n  Intervals:';
+    stats.intervals.forEach(interval => {
+      output += `\n    ${formatDuration(interval.startMs)}-${formatDuration(interval.endMs)}: ${formatIntervalStats(interval)}`;
+    });
+  }
+
+  output += formatDistribution(stats);
 
   return output.trim();
 }
@@ -324,6 +1605,10 @@ function formatChainStats(stats: ChainStats): string {
 export function formatServiceStats(stats: ServiceStats): string {
   const parts: string[] = [];
 
+  if (stats.initMs !== undefined) {
+    parts.push(`Initialization: ${stats.initMs.toFixed(2)}ms${formatFirstCall(stats)}`);
+  }
+
   if (stats.ethereum) {
     parts.push(formatChainStats(stats.ethereum));
   }
@@ -332,6 +1617,10 @@ export function formatServiceStats(stats: ServiceStats): string {
     parts.push(formatChainStats(stats.solana));
   }
 
+  stats.operations?.forEach(operationStats => {
+    parts.push(formatChainStats(operationStats));
+  });
+
   if (stats.consolidated) {
     parts.push(formatConsolidatedStats(stats.consolidated));
   }
@@ -352,14 +1641,137 @@ function formatConsolidatedStats(stats: ChainStats): string {
     output += `\n  ⚠️  Verification failures: ${stats.verificationFailures}`;
   }
 
+  if (stats.timeoutCount || stats.retryCount) {
+    output += `\n  Timeouts: ${stats.timeoutCount ?? 0}, Retries: ${stats.retryCount ?? 0}`;
+  }
+
+  if (stats.errorBreakdown?.length) {
+    output += formatErrorBreakdown(stats.errorBreakdown);
+  }
+
   output += `
   Mean: ${stats.mean.toFixed(2)}ms
-  Median: ${stats.median.toFixed(2)}ms
-  P95: ${stats.p95.toFixed(2)}ms
+  Median: ${stats.median.toFixed(2)}ms ${formatCI(stats.medianCI)}
+  P95: ${stats.p95.toFixed(2)}ms ${formatCI(stats.p95CI)}
   P99: ${stats.p99.toFixed(2)}ms
   Range: ${stats.min.toFixed(2)}ms - ${stats.max.toFixed(2)}ms
-  Std Dev: ${stats.standardDeviation.toFixed(2)}ms`;
+  Std Dev: ${stats.standardDeviation.toFixed(2)}ms${formatRobustStats(stats)}
+  Throughput: ${formatThroughput(stats)}`;
+
+  if (stats.percentileErrorBound !== undefined) {
+    output += `\n  Percentiles: streaming histogram, within ±${(stats.percentileErrorBound * 100).toFixed(2)}%`;
+  }
 
   return output.trim();
 }
 
+
+// ===== MARKDOWN =====
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format a Markdown table; every column but the first `leftColumns` is right-aligned
+ */
+function markdownTable(header: string[], rows: string[][], leftColumns = 1): string {
+  const align = header.map((_, i) => i < leftColumns ? '---' : '---:');
+  return [header, align, ...rows]
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n');
+}
+
+/**
+ * Format the ranking of one chain/operation as a Markdown table
+ *
+ * Services that share a rank or failed the timing cross-check are noted
+ * below the table. Trimmed-mean and composite rankings add a column with
+ * the value they were ranked by.
+ *
+ * @returns undefined if no service has successful samples
+ */
+export function formatRankingsMarkdown(
+  stats: ServiceStats[],
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation = 'message',
+  metric: RankingMetric = 'median'
+): string | undefined {
+  const rankings = rankServicesByChain(stats, chain, operation, metric);
+  if (rankings.length === 0) return undefined;
+
+  const scoreColumn = metric === 'trimmed-mean' ? 'Trimmed mean' : metric === 'composite' ? 'Score' : undefined;
+
+  const rows = rankings.map(ranking => {
+    const service = stats.find(s => s.serviceName === ranking.serviceName)!;
+    const { p99 } = getChainStats(service, chain, operation)!;
+    return [
+      String(ranking.rank),
+      markdownCell(capitalize(ranking.serviceName)) + (ranking.timingSuspect ? ' ⚠️' : ''),
+      ...(scoreColumn ? [metric === 'composite' ? ranking.score.toFixed(2) : `${ranking.score.toFixed(2)}ms`] : []),
+      `${ranking.median.toFixed(2)}ms`,
+      `${ranking.mean.toFixed(2)}ms`,
+      `${ranking.p95.toFixed(2)}ms`,
+      `${p99.toFixed(2)}ms`,
+      `${ranking.successRate.toFixed(1)}%`,
+    ];
+  });
+
+  const notes = rankings.flatMap(ranking => [
+    ...(ranking.tiedWithLeader
+      ? [`${capitalize(ranking.serviceName)} is not significantly different from ` +
+        `${capitalize(rankLeader(rankings, ranking).serviceName)} (${formatTieReason(ranking)})`]
+      : []),
+    ...(ranking.timingSuspect
+      ? [`⚠️ ${capitalize(ranking.serviceName)}: self-reported latency failed the wall-clock cross-check`]
+      : []),
+  ]);
+
+  const header = ['Rank', 'Service', ...(scoreColumn ? [scoreColumn] : []), 'Median', 'Mean', 'P95', 'P99', 'Success rate'];
+  const table = markdownTable(header, rows, 2);
+  return notes.length > 0
+    ? `${table}\n\n${notes.map(note => `- ${markdownCell(note)}`).join('\n')}`
+    : table;
+}
+
+/**
+ * Format a service's statistics as a Markdown table, one row per chain/operation
+ */
+export function formatServiceStatsMarkdown(stats: ServiceStats): string {
+  const row = (label: string, s: ChainStats) => [
+    label,
+    String(s.iterations),
+    `${s.successRate.toFixed(1)}%`,
+    `${s.verifiedCount}/${s.successCount}`,
+    `${s.mean.toFixed(2)}ms`,
+    `${s.median.toFixed(2)}ms`,
+    `${s.p95.toFixed(2)}ms`,
+    `${s.p99.toFixed(2)}ms`,
+    `${s.min.toFixed(2)}ms`,
+    `${s.max.toFixed(2)}ms`,
+    `${s.standardDeviation.toFixed(2)}ms`,
+    `${s.trimmedMean.toFixed(2)}ms`,
+    `${s.mad.toFixed(2)}ms`,
+    String(s.outliers.count),
+    `${s.throughput.toFixed(2)} sig/s`,
+  ];
+
+  const rows = listChainStats(stats).map(s => row(describeOperation(s.chain, s.operation), s));
+  if (stats.consolidated) {
+    rows.push(row('Consolidated', stats.consolidated));
+  }
+
+  const table = markdownTable(
+    [
+      'Chain', 'Iterations', 'Success rate', 'Verified', 'Mean', 'Median', 'P95', 'P99', 'Min', 'Max', 'Std dev',
+      'Trimmed mean', 'MAD', 'Outliers', 'Throughput',
+    ],
+    rows
+  );
+  return stats.initMs !== undefined
+    ? `${table}\n\nInitialization: ${stats.initMs.toFixed(2)}ms${formatFirstCall(stats)}`
+    : table;
+}
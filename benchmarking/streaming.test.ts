@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPercentile } from './statistics.js';
+import { HISTOGRAM_RELATIVE_ERROR, LatencyHistogram, MAX_RETAINED_FAILURES, RESERVOIR_SIZE, StreamingRecorder } from './streaming.js';
+
+/**
+ * Deterministic, widely spread latencies (0.05ms - ~5s)
+ */
+function spreadLatencies(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => 0.05 * Math.exp((i * 11.5) / count));
+}
+
+describe('LatencyHistogram', () => {
+  it('returns zeros when empty', () => {
+    const histogram = new LatencyHistogram();
+    assert.equal(histogram.count, 0);
+    assert.equal(histogram.percentile(50), 0);
+    assert.equal(histogram.min, 0);
+    assert.equal(histogram.max, 0);
+  });
+
+  it('keeps percentiles within the stated error bound', () => {
+    const latencies = spreadLatencies(5000);
+    const histogram = new LatencyHistogram();
+    latencies.forEach(latency => histogram.record(latency));
+
+    const sorted = [...latencies].sort((a, b) => a - b);
+    for (const percentile of [1, 25, 50, 90, 95, 99, 99.9]) {
+      const exact = getPercentile(sorted, percentile);
+      const approximate = histogram.percentile(percentile);
+      // Allow the 0.5µs rounding on top of the relative error for sub-millisecond values
+      assert.ok(
+        Math.abs(approximate - exact) <= exact * HISTOGRAM_RELATIVE_ERROR + 0.0005,
+        `p${percentile}: ${approximate} vs ${exact}`
+      );
+    }
+  });
+
+  it('tracks exact min, max, mean and variance', () => {
+    const histogram = new LatencyHistogram();
+    [10, 20, 30, 40].forEach(latency => histogram.record(latency));
+
+    assert.equal(histogram.min, 10);
+    assert.equal(histogram.max, 40);
+    assert.equal(histogram.mean, 25);
+    assert.equal(histogram.variance, 125);
+    assert.equal(histogram.total, 100);
+  });
+
+  it('keeps a bounded sample of raw latencies', () => {
+    const histogram = new LatencyHistogram();
+    spreadLatencies(RESERVOIR_SIZE * 3).forEach(latency => histogram.record(latency));
+
+    assert.equal(histogram.count, RESERVOIR_SIZE * 3);
+    assert.equal(histogram.samples.length, RESERVOIR_SIZE);
+  });
+
+  it('merges counts and moments', () => {
+    const a = new LatencyHistogram();
+    const b = new LatencyHistogram();
+    [10, 20].forEach(latency => a.record(latency));
+    [30, 40].forEach(latency => b.record(latency));
+
+    a.merge(b);
+    assert.equal(a.count, 4);
+    assert.equal(a.min, 10);
+    assert.equal(a.max, 40);
+    assert.equal(a.mean, 25);
+    assert.equal(a.variance, 125);
+    assert.equal(a.samples.length, 4);
+  });
+
+  it('counts latencies outside a range', () => {
+    const histogram = new LatencyHistogram();
+    [5, 100, 110, 120, 4000].forEach(latency => histogram.record(latency));
+
+    assert.equal(histogram.countOutside(50, 200), 2);
+    assert.equal(histogram.countOutside(0, 5000), 0);
+  });
+
+  it('keeps no raw samples when created without a reservoir', () => {
+    const histogram = new LatencyHistogram(0);
+    [10, 20, 30].forEach(latency => histogram.record(latency));
+
+    assert.equal(histogram.count, 3);
+    assert.ok(Math.abs(histogram.percentile(50) - 20) <= 20 * HISTOGRAM_RELATIVE_ERROR);
+    assert.deepEqual(histogram.samples, []);
+  });
+});
+
+describe('StreamingRecorder', () => {
+  it('counts results and buckets them into intervals', () => {
+    const recorder = new StreamingRecorder(1000);
+    recorder.record({ success: true, apiLatencyMs: 10, verified: true, startedAtMs: 0 });
+    recorder.record({ success: true, apiLatencyMs: 20, verified: false, startedAtMs: 900 });
+    recorder.record({ success: false, error: 'boom', startedAtMs: 1500 });
+
+    assert.equal(recorder.successCount, 2);
+    assert.equal(recorder.errorCount, 1);
+    assert.equal(recorder.verifiedCount, 1);
+    assert.equal(recorder.verificationFailures, 1);
+    assert.equal(recorder.histogram.count, 2);
+    assert.deepEqual(recorder.intervals.map(i => [i.successCount, i.errorCount]), [[2, 0], [0, 1]]);
+    assert.deepEqual(recorder.failures.map(f => f.error), ['boom']);
+  });
+
+  it('reduces older intervals to their percentiles', () => {
+    const recorder = new StreamingRecorder(1000);
+    for (let second = 0; second < 100; second++) {
+      recorder.record({ success: true, apiLatencyMs: 10 + second, startedAtMs: second * 1000 });
+    }
+    recorder.record({ success: true, apiLatencyMs: 500, startedAtMs: 0 });
+
+    assert.equal(recorder.intervals.filter(i => i.histogram).length, 2);
+    // The late call is counted, but no longer changes the summarized percentiles
+    assert.deepEqual(recorder.intervalStats(0), { startMs: 0, endMs: 1000, successCount: 2, errorCount: 0, median: 10, p95: 10, p99: 10 });
+    assert.equal(recorder.intervalStats(99).median, 109);
+  });
+
+  it('serializes a summary rather than its internals', () => {
+    const recorder = new StreamingRecorder(1000);
+    recorder.record({
+      success: true,
+      apiLatencyMs: 10,
+      startedAtMs: 0,
+      httpPhases: { requestCount: 1, connectionReused: false, phases: { connect: 2, ttfb: 8 } },
+    });
+
+    const json = JSON.parse(JSON.stringify(recorder));
+    assert.equal(json.successCount, 1);
+    assert.equal(json.histogram.count, 1);
+    assert.equal(json.intervals[0].successCount, 1);
+    assert.deepEqual(Object.keys(json.httpPhases.histograms), ['connect', 'ttfb']);
+    assert.equal(json.httpPhases.histograms.ttfb.count, 1);
+  });
+
+  it('keeps only the first few failures', () => {
+    const recorder = new StreamingRecorder();
+    for (let i = 0; i < MAX_RETAINED_FAILURES + 5; i++) {
+      recorder.record({ success: false, error: `error ${i}` });
+    }
+
+    assert.equal(recorder.errorCount, MAX_RETAINED_FAILURES + 5);
+    assert.equal(recorder.failures.length, MAX_RETAINED_FAILURES);
+  });
+});
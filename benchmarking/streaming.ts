@@ -0,0 +1,436 @@
+/**
+ * Streaming Statistics
+ *
+ * Constant-memory latency statistics for very long or very busy runs.
+ * Samples are folded into HDR-histogram style buckets one at a time, so
+ * memory does not grow with the number of iterations.
+ */
+
+import { recordResultErrors, type ErrorBreakdownEntry } from './errors.js';
+import type { HttpPhase, HttpPhaseTimings } from './http-phases.js';
+import type { SigningResult } from './runner.js';
+import type { IntervalStats } from './statistics.js';
+import { resultLatency } from './utils.js';
+
+/** Latencies are bucketed in whole microseconds */
+const UNITS_PER_MS = 1000;
+
+/** Sub-buckets per power of two; sets the precision of the histogram */
+const SUB_BUCKET_COUNT = 128;
+const SUB_BUCKET_HALF = SUB_BUCKET_COUNT / 2;
+const SUB_BUCKET_HALF_BITS = 6;
+
+/** Largest trackable latency (~71 minutes); slower samples land in the top bucket */
+const MAX_UNITS = 2 ** 32 - 1;
+
+/**
+ * Worst-case relative error of a percentile read from a histogram
+ *
+ * Below SUB_BUCKET_COUNT µs every microsecond has its own bucket. Above it,
+ * a bucket is 1/64 of its lower bound wide and is reported at its midpoint,
+ * so values are off by at most 1/128 (~0.8%) of the true sample.
+ */
+export const HISTOGRAM_RELATIVE_ERROR = 1 / SUB_BUCKET_COUNT;
+
+/** Number of raw samples kept (uniformly at random) for significance tests */
+export const RESERVOIR_SIZE = 1000;
+
+/** Number of failed attempts kept for reporting in streaming mode */
+export const MAX_RETAINED_FAILURES = 100;
+
+/**
+ * Bucket index for a latency in microseconds
+ */
+function bucketIndex(units: number): number {
+  if (units < SUB_BUCKET_COUNT) return units;
+
+  // Each power of two above SUB_BUCKET_COUNT is split into SUB_BUCKET_HALF buckets
+  const shift = 31 - Math.clz32(units) - SUB_BUCKET_HALF_BITS;
+  const subBucket = Math.floor(units / 2 ** shift);
+  return SUB_BUCKET_COUNT + (shift - 1) * SUB_BUCKET_HALF + (subBucket - SUB_BUCKET_HALF);
+}
+
+/**
+ * Midpoint of a bucket in microseconds
+ */
+function bucketMidpoint(index: number): number {
+  if (index < SUB_BUCKET_COUNT) return index;
+
+  const shift = Math.floor((index - SUB_BUCKET_COUNT) / SUB_BUCKET_HALF) + 1;
+  const subBucket = ((index - SUB_BUCKET_COUNT) % SUB_BUCKET_HALF) + SUB_BUCKET_HALF;
+  return (subBucket + 0.5) * 2 ** shift;
+}
+
+/**
+ * Log-linear latency histogram with running mean and variance
+ *
+ * Buckets are stored sparsely, so an empty or narrow histogram stays small
+ * and no histogram ever holds more than a few thousand counters. A bounded
+ * reservoir of raw samples is kept alongside for significance tests.
+ */
+export class LatencyHistogram {
+  private counts = new Map<number, number>();
+  private _count = 0;
+  private _min = Infinity;
+  private _max = -Infinity;
+  private _mean = 0;
+  private m2 = 0; // Sum of squared deviations from the mean (Welford)
+  private reservoir: number[] = [];
+
+  /**
+   * @param reservoirSize - Raw samples to keep; 0 for histograms that only report percentiles
+   */
+  constructor(private readonly reservoirSize: number = RESERVOIR_SIZE) {}
+
+  get count(): number {
+    return this._count;
+  }
+
+  get min(): number {
+    return this._count > 0 ? this._min : 0;
+  }
+
+  get max(): number {
+    return this._count > 0 ? this._max : 0;
+  }
+
+  get mean(): number {
+    return this._mean;
+  }
+
+  get total(): number {
+    return this._mean * this._count;
+  }
+
+  /** Population variance, matching computeStats */
+  get variance(): number {
+    return this._count > 0 ? this.m2 / this._count : 0;
+  }
+
+  get standardDeviation(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  /** Uniform random sample of at most `reservoirSize` recorded latencies */
+  get samples(): number[] {
+    return [...this.reservoir];
+  }
+
+  /**
+   * Record one latency in milliseconds
+   */
+  record(latencyMs: number): void {
+    const units = Math.min(Math.max(0, Math.round(latencyMs * UNITS_PER_MS)), MAX_UNITS);
+    const index = bucketIndex(units);
+    this.counts.set(index, (this.counts.get(index) ?? 0) + 1);
+
+    this._count++;
+    this._min = Math.min(this._min, latencyMs);
+    this._max = Math.max(this._max, latencyMs);
+
+    const delta = latencyMs - this._mean;
+    this._mean += delta / this._count;
+    this.m2 += delta * (latencyMs - this._mean);
+
+    // Reservoir sampling (Algorithm R)
+    if (this.reservoir.length < this.reservoirSize) {
+      this.reservoir.push(latencyMs);
+    } else if (this.reservoirSize > 0) {
+      const slot = Math.floor(Math.random() * this._count);
+      if (slot < this.reservoirSize) {
+        this.reservoir[slot] = latencyMs;
+      }
+    }
+  }
+
+  /**
+   * Fold another histogram into this one
+   */
+  merge(other: LatencyHistogram): void {
+    if (other._count === 0) return;
+
+    for (const [index, count] of other.counts) {
+      this.counts.set(index, (this.counts.get(index) ?? 0) + count);
+    }
+
+    // Combine running moments (Chan et al.)
+    const count = this._count + other._count;
+    const delta = other._mean - this._mean;
+    this.m2 += other.m2 + (delta * delta * this._count * other._count) / count;
+    this._mean += (delta * other._count) / count;
+
+    // Draw the combined reservoir from each side in proportion to its count
+    const mine = [...this.reservoir];
+    const theirs = [...other.reservoir];
+    const size = Math.min(this.reservoirSize, mine.length + theirs.length);
+    this.reservoir = [];
+    while (this.reservoir.length < size) {
+      const fromMine = theirs.length === 0 || (mine.length > 0 && Math.random() < this._count / count);
+      const source = fromMine ? mine : theirs;
+      this.reservoir.push(source.splice(Math.floor(Math.random() * source.length), 1)[0]);
+    }
+
+    this._count = count;
+    this._min = Math.min(this._min, other._min);
+    this._max = Math.max(this._max, other._max);
+  }
+
+  /**
+   * Approximate value of the sample at a 0-based rank in sorted order
+   */
+  valueAtRank(rank: number): number {
+    if (this._count === 0) return 0;
+
+    const target = Math.min(Math.max(0, Math.floor(rank)), this._count - 1);
+    let seen = 0;
+    for (const index of [...this.counts.keys()].sort((a, b) => a - b)) {
+      seen += this.counts.get(index)!;
+      if (seen > target) {
+        // The exact extremes are known, so never report beyond them
+        const value = bucketMidpoint(index) / UNITS_PER_MS;
+        return Math.min(Math.max(value, this._min), this._max);
+      }
+    }
+    return this._max;
+  }
+
+  /**
+   * Approximate number of recorded latencies below `lower` or above `upper`
+   */
+  countOutside(lower: number, upper: number): number {
+    let count = 0;
+    for (const [index, bucketCount] of this.counts) {
+      const value = Math.min(Math.max(bucketMidpoint(index) / UNITS_PER_MS, this._min), this._max);
+      if (value < lower || value > upper) count += bucketCount;
+    }
+    return count;
+  }
+
+  /**
+   * Approximate percentile, interpolated between ranks like getPercentile
+   */
+  percentile(percentile: number): number {
+    if (this._count === 0) return 0;
+
+    const index = (percentile / 100) * (this._count - 1);
+    const lower = this.valueAtRank(Math.floor(index));
+    const upper = this.valueAtRank(Math.ceil(index));
+    return lower + (upper - lower) * (index - Math.floor(index));
+  }
+
+  /**
+   * Compact JSON form: non-empty buckets as [midpoint ms, count] pairs
+   */
+  toJSON() {
+    return {
+      count: this._count,
+      min: this.min,
+      max: this.max,
+      mean: this.mean,
+      standardDeviation: this.standardDeviation,
+      relativeError: HISTOGRAM_RELATIVE_ERROR,
+      buckets: [...this.counts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, count]) => [bucketMidpoint(index) / UNITS_PER_MS, count]),
+    };
+  }
+}
+
+/** Intervals whose latencies are still kept; older ones are reduced to their percentiles */
+const LIVE_INTERVALS = 2;
+
+/**
+ * Counts and latencies for one fixed-length window of a run
+ *
+ * Once two later intervals have started, the histogram is replaced by its
+ * percentiles, so a run keeps a constant number of histograms however many
+ * intervals it has.
+ */
+export interface IntervalHistogram {
+  /** Latencies of a recent interval */
+  histogram?: LatencyHistogram;
+  /** Percentiles of an older interval */
+  percentiles?: { median: number; p95: number; p99: number };
+  successCount: number;
+  errorCount: number;
+}
+
+/**
+ * Accumulates signing results for one chain/operation without keeping them
+ *
+ * Only the first MAX_RETAINED_FAILURES failed attempts are kept verbatim.
+ */
+export class StreamingRecorder {
+  readonly histogram = new LatencyHistogram();
+  readonly intervals: IntervalHistogram[] = [];
+  readonly failures: SigningResult[] = [];
+  readonly errorBreakdown: ErrorBreakdownEntry[] = [];
+  successCount = 0;
+  errorCount = 0;
+  verifiedCount = 0;
+  verificationFailures = 0;
+  timeoutCount = 0;
+  retryCount = 0;
+
+  /** Harness wall-clock timing, to cross-check adapter-reported latency */
+  readonly timing = {
+    wallClock: new LatencyHistogram(0),
+    /** Untimed overhead per call; calls that over-report count as zero here */
+    overhead: new LatencyHistogram(0),
+    overReportedCount: 0,
+    maxOverReportMs: 0,
+  };
+
+  /** HTTP phase timings of successful calls, when traced */
+  readonly httpPhases = {
+    samples: 0,
+    reusedCount: 0,
+    histograms: new Map<HttpPhase, LatencyHistogram>(),
+  };
+
+  constructor(readonly intervalMs?: number) {}
+
+  /**
+   * Fold one signing result into the running statistics
+   */
+  record(result: SigningResult): void {
+    const interval = this.intervalFor(result.startedAtMs);
+
+    recordResultErrors(this.errorBreakdown, result);
+    if (result.timedOut) this.timeoutCount++;
+    for (const retried of result.retriedAttempts ?? []) {
+      this.retryCount++;
+      if (retried.timedOut) this.timeoutCount++;
+    }
+
+    if (!result.success) {
+      this.errorCount++;
+      if (interval) interval.errorCount++;
+      if (this.failures.length < MAX_RETAINED_FAILURES) {
+        this.failures.push(result);
+      }
+      return;
+    }
+
+    this.successCount++;
+    if (result.verified === true) this.verifiedCount++;
+    if (result.verified === false) this.verificationFailures++;
+
+    const latencyMs = resultLatency(result);
+    if (latencyMs !== undefined) {
+      this.histogram.record(latencyMs);
+      // A call that finishes after its interval was summarized only adds to its counts
+      interval?.histogram?.record(latencyMs);
+
+      if (result.wallClockMs !== undefined && result.apiLatencyMs !== undefined) {
+        this.recordTiming(result.wallClockMs, result.apiLatencyMs);
+      }
+    }
+    if (result.httpPhases) this.recordHttpPhases(result.httpPhases);
+    if (interval) interval.successCount++;
+  }
+
+  /**
+   * Summarize the interval at a 0-based index
+   */
+  intervalStats(index: number, durationMs?: number): IntervalStats {
+    const intervalMs = this.intervalMs ?? 0;
+    const interval = this.intervals[index];
+    const startMs = index * intervalMs;
+    const endMs = durationMs !== undefined ? Math.min(startMs + intervalMs, durationMs) : startMs + intervalMs;
+
+    return {
+      startMs,
+      endMs,
+      successCount: interval?.successCount ?? 0,
+      errorCount: interval?.errorCount ?? 0,
+      ...(interval ? percentilesOf(interval) : { median: 0, p95: 0, p99: 0 }),
+    };
+  }
+
+  /**
+   * Summary for JSON exports: histograms in their compact form, intervals as percentiles
+   */
+  toJSON() {
+    return {
+      successCount: this.successCount,
+      errorCount: this.errorCount,
+      verifiedCount: this.verifiedCount,
+      verificationFailures: this.verificationFailures,
+      timeoutCount: this.timeoutCount,
+      retryCount: this.retryCount,
+      histogram: this.histogram.toJSON(),
+      intervalMs: this.intervalMs,
+      intervals: this.intervals.map((_, index) => this.intervalStats(index)),
+      errorBreakdown: this.errorBreakdown,
+      failures: this.failures,
+      timing: {
+        wallClock: this.timing.wallClock.toJSON(),
+        overhead: this.timing.overhead.toJSON(),
+        overReportedCount: this.timing.overReportedCount,
+        maxOverReportMs: this.timing.maxOverReportMs,
+      },
+      httpPhases: {
+        samples: this.httpPhases.samples,
+        reusedCount: this.httpPhases.reusedCount,
+        histograms: Object.fromEntries(
+          [...this.httpPhases.histograms].map(([phase, histogram]) => [phase, histogram.toJSON()])
+        ),
+      },
+    };
+  }
+
+  private recordTiming(wallClockMs: number, apiLatencyMs: number): void {
+    const overheadMs = wallClockMs - apiLatencyMs;
+    this.timing.wallClock.record(wallClockMs);
+    this.timing.overhead.record(Math.max(0, overheadMs));
+
+    // Same 1ms jitter allowance as the exact check
+    if (overheadMs < -1) {
+      this.timing.overReportedCount++;
+      this.timing.maxOverReportMs = Math.max(this.timing.maxOverReportMs, -overheadMs);
+    }
+  }
+
+  private recordHttpPhases(timings: HttpPhaseTimings): void {
+    this.httpPhases.samples++;
+    if (timings.connectionReused) this.httpPhases.reusedCount++;
+
+    for (const [phase, ms] of Object.entries(timings.phases) as [HttpPhase, number][]) {
+      let histogram = this.httpPhases.histograms.get(phase);
+      if (!histogram) {
+        histogram = new LatencyHistogram(0);
+        this.httpPhases.histograms.set(phase, histogram);
+      }
+      histogram.record(ms);
+    }
+  }
+
+  private intervalFor(startedAtMs: number | undefined): IntervalHistogram | undefined {
+    if (!this.intervalMs || startedAtMs === undefined) return undefined;
+
+    const index = Math.floor(startedAtMs / this.intervalMs);
+    for (let i = this.intervals.length; i <= index; i++) {
+      this.intervals.push({ histogram: new LatencyHistogram(0), successCount: 0, errorCount: 0 });
+
+      const old = this.intervals[i - LIVE_INTERVALS];
+      if (old?.histogram) {
+        old.percentiles = percentilesOf(old);
+        delete old.histogram;
+      }
+    }
+    return this.intervals[index];
+  }
+}
+
+/**
+ * Median, p95 and p99 of an interval, live or summarized
+ */
+function percentilesOf(interval: IntervalHistogram): { median: number; p95: number; p99: number } {
+  if (!interval.histogram) return interval.percentiles ?? { median: 0, p95: 0, p99: 0 };
+  return {
+    median: interval.histogram.percentile(50),
+    p95: interval.histogram.percentile(95),
+    p99: interval.histogram.percentile(99),
+  };
+}
@@ -2,10 +2,95 @@
  * Shared utility functions
  */
 
+import type { BenchmarkConfig, SigningOperation, SigningResult } from './runner.js';
+
 export function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+/**
+ * Where progress messages go (stdout by default, stderr when stdout carries a report)
+ */
+export type Log = (message?: string) => void;
+
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+/**
+ * Latency of a successful signing result, or undefined for a failure
+ *
+ * Counted from when the first attempt should have gone out: any open-loop
+ * schedule delay, then failed attempts and their backoff, then the final call.
+ */
+export function resultLatency(result: SigningResult): number | undefined {
+  return result.success && result.apiLatencyMs !== undefined
+    ? result.apiLatencyMs + (result.scheduleDelayMs ?? 0) + (result.retryDelayMs ?? 0)
+    : undefined;
+}
+
+/**
+ * Human-readable name for a chain/operation pair, e.g. "Ethereum typed data"
+ *
+ * Message signing is the default operation and is shown as just the chain.
+ */
+export function describeOperation(chain: string, operation: SigningOperation = 'message'): string {
+  return operation === 'message'
+    ? capitalize(chain)
+    : `${capitalize(chain)} ${operation.replace(/-/g, ' ')}`;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "90s", "15m", "2h" or "1h30m" into milliseconds
+ *
+ * A bare number is read as seconds. Returns undefined for invalid input.
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (parts.length === 0 || parts.map(p => p[0]).join('') !== trimmed) {
+    return undefined;
+  }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS_MS[unit], 0);
+}
+
+/**
+ * Format milliseconds as a compact duration, e.g. "1h05m", "2m30s", "12.5s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms === 0) return '0s';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+
+  const totalSeconds = ms / 1000;
+  if (totalSeconds < 60) return `${Number(totalSeconds.toFixed(1))}s`;
+
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  return hours > 0
+    ? `${hours}h${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m${String(seconds).padStart(2, '0')}s`;
+}
+
+/**
+ * Describe how long a run lasts, e.g. "20 iterations" or "2h00m"
+ */
+export function describeRunLength(config: BenchmarkConfig): string {
+  if (config.runDurationMs === undefined) {
+    return `${config.iterations} iterations`;
+  }
+  const cap = config.iterations < Number.MAX_SAFE_INTEGER ? `, up to ${config.iterations} iterations` : '';
+  return `${formatDuration(config.runDurationMs)}${cap}`;
+}
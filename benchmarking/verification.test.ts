@@ -0,0 +1,170 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { privateKeyToAccount } from 'viem/accounts';
+import {
+  createSolanaTransferTransaction,
+  STANDARD_ETHEREUM_MESSAGE,
+  STANDARD_ETHEREUM_TRANSACTION,
+  STANDARD_ETHEREUM_TYPED_DATA,
+  STANDARD_SOLANA_MESSAGE,
+  STANDARD_SOLANA_TRANSFER,
+} from '../services/index.js';
+import {
+  verifyEthereumSignature,
+  verifyEthereumTransaction,
+  verifyEthereumTypedDataSignature,
+  verifySolanaSignature,
+  verifySolanaTransaction,
+} from './verification.js';
+
+// Well-known development keys - never hold funds
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const otherAccount = privateKeyToAccount('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+const keypair = Keypair.fromSeed(new Uint8Array(32).fill(7));
+
+/**
+ * Flip one bit in the middle of a hex string
+ */
+function tamperHex(hex: string): `0x${string}` {
+  const index = Math.floor(hex.length / 2);
+  const flipped = (parseInt(hex[index], 16) ^ 1).toString(16);
+  return `${hex.slice(0, index)}${flipped}${hex.slice(index + 1)}` as `0x${string}`;
+}
+
+describe('verifyEthereumSignature', () => {
+  it('accepts a valid signature', async () => {
+    const signature = await account.signMessage({ message: STANDARD_ETHEREUM_MESSAGE });
+    const result = await verifyEthereumSignature(STANDARD_ETHEREUM_MESSAGE, signature, account.address);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a signature over a different message', async () => {
+    const signature = await account.signMessage({ message: 'Something else' });
+    const result = await verifyEthereumSignature(STANDARD_ETHEREUM_MESSAGE, signature, account.address);
+    assert.equal(result.valid, false);
+    assert.ok(result.error);
+  });
+
+  it('verifies raw byte payloads as bytes', async () => {
+    const raw = new Uint8Array([0x00, 0xff, 0x10, 0x80]);
+    const signature = await account.signMessage({ message: { raw } });
+    assert.equal((await verifyEthereumSignature(raw, signature, account.address)).valid, true);
+    assert.equal((await verifyEthereumSignature('0x00ff1080', signature, account.address)).valid, false);
+  });
+
+  it('rejects a signature from another wallet', async () => {
+    const signature = await otherAccount.signMessage({ message: STANDARD_ETHEREUM_MESSAGE });
+    const result = await verifyEthereumSignature(STANDARD_ETHEREUM_MESSAGE, signature, account.address);
+    assert.equal(result.valid, false);
+  });
+
+  it('reports malformed signatures as invalid instead of throwing', async () => {
+    const result = await verifyEthereumSignature(STANDARD_ETHEREUM_MESSAGE, 'not-a-signature', account.address);
+    assert.equal(result.valid, false);
+    assert.ok(result.error);
+  });
+});
+
+describe('verifyEthereumTypedDataSignature', () => {
+  it('accepts a valid signature', async () => {
+    const signature = await account.signTypedData(STANDARD_ETHEREUM_TYPED_DATA);
+    const result = await verifyEthereumTypedDataSignature(STANDARD_ETHEREUM_TYPED_DATA, signature, account.address);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a tampered signature', async () => {
+    const signature = await account.signTypedData(STANDARD_ETHEREUM_TYPED_DATA);
+    const result = await verifyEthereumTypedDataSignature(STANDARD_ETHEREUM_TYPED_DATA, tamperHex(signature), account.address);
+    assert.equal(result.valid, false);
+  });
+});
+
+describe('verifyEthereumTransaction', () => {
+  it('accepts a transaction signed by the wallet', async () => {
+    const signed = await account.signTransaction(STANDARD_ETHEREUM_TRANSACTION);
+    const result = await verifyEthereumTransaction(STANDARD_ETHEREUM_TRANSACTION, signed, account.address);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a transaction that differs from the request', async () => {
+    const signed = await account.signTransaction({ ...STANDARD_ETHEREUM_TRANSACTION, nonce: 1 });
+    const result = await verifyEthereumTransaction(STANDARD_ETHEREUM_TRANSACTION, signed, account.address);
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /nonce/);
+  });
+
+  it('rejects a transaction with different calldata', async () => {
+    const signed = await account.signTransaction({ ...STANDARD_ETHEREUM_TRANSACTION, data: '0xdeadbeef' });
+    const result = await verifyEthereumTransaction(STANDARD_ETHEREUM_TRANSACTION, signed, account.address);
+    assert.equal(result.valid, false);
+    assert.match(result.error!, /data/);
+  });
+
+  it('rejects a transaction signed by another wallet', async () => {
+    const signed = await otherAccount.signTransaction(STANDARD_ETHEREUM_TRANSACTION);
+    const result = await verifyEthereumTransaction(STANDARD_ETHEREUM_TRANSACTION, signed, account.address);
+    assert.equal(result.valid, false);
+  });
+});
+
+describe('verifySolanaSignature', () => {
+  const messageBytes = new TextEncoder().encode(STANDARD_SOLANA_MESSAGE);
+  const address = keypair.publicKey.toBase58();
+
+  it('accepts a valid signature', async () => {
+    const signature = Buffer.from(nacl.sign.detached(messageBytes, keypair.secretKey)).toString('base64');
+    const result = await verifySolanaSignature(STANDARD_SOLANA_MESSAGE, signature, address);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a tampered signature', async () => {
+    const signatureBytes = nacl.sign.detached(messageBytes, keypair.secretKey);
+    signatureBytes[0] ^= 1;
+    const signature = Buffer.from(signatureBytes).toString('base64');
+    const result = await verifySolanaSignature(STANDARD_SOLANA_MESSAGE, signature, address);
+    assert.equal(result.valid, false);
+  });
+
+  it('verifies raw byte payloads as bytes', async () => {
+    const raw = new Uint8Array([0x00, 0xff, 0x10, 0x80]);
+    const signature = Buffer.from(nacl.sign.detached(raw, keypair.secretKey)).toString('base64');
+    assert.equal((await verifySolanaSignature(raw, signature, address)).valid, true);
+  });
+
+  it('reports an invalid address as invalid instead of throwing', async () => {
+    const signature = Buffer.from(nacl.sign.detached(messageBytes, keypair.secretKey)).toString('base64');
+    const result = await verifySolanaSignature(STANDARD_SOLANA_MESSAGE, signature, 'not-an-address');
+    assert.equal(result.valid, false);
+    assert.ok(result.error);
+  });
+});
+
+describe('verifySolanaTransaction', () => {
+  const address = keypair.publicKey.toBase58();
+
+  function signTransfer(transfer = STANDARD_SOLANA_TRANSFER): Buffer {
+    const transaction = createSolanaTransferTransaction(transfer, address);
+    transaction.sign(keypair);
+    return transaction.serialize();
+  }
+
+  it('accepts a transfer signed by the fee payer', async () => {
+    const result = await verifySolanaTransaction(STANDARD_SOLANA_TRANSFER, signTransfer().toString('base64'), address);
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a transfer that differs from the request', async () => {
+    const signed = signTransfer({ ...STANDARD_SOLANA_TRANSFER, lamports: 1 });
+    const result = await verifySolanaTransaction(STANDARD_SOLANA_TRANSFER, signed.toString('base64'), address);
+    assert.equal(result.valid, false);
+  });
+
+  it('rejects a tampered signature', async () => {
+    const signed = signTransfer();
+    signed[1] ^= 1; // First byte of the fee payer signature
+    const result = await verifySolanaTransaction(STANDARD_SOLANA_TRANSFER, signed.toString('base64'), address);
+    assert.equal(result.valid, false);
+  });
+});
@@ -5,9 +5,18 @@
  * Called AFTER timing to avoid bias.
  */
 
-import { verifyMessage } from 'viem';
-import { PublicKey } from '@solana/web3.js';
+import {
+  isAddressEqual,
+  parseTransaction,
+  recoverTransactionAddress,
+  verifyMessage,
+  verifyTypedData,
+  type TransactionSerializableEIP1559,
+  type TypedDataDefinition,
+} from 'viem';
+import { PublicKey, SystemInstruction, Transaction } from '@solana/web3.js';
 import nacl from 'tweetnacl';
+import type { SignableMessage, SolanaTransferRequest } from '../services/index.js';
 
 export interface VerificationResult {
   valid: boolean;
@@ -18,14 +27,14 @@ export interface VerificationResult {
  * Verify an Ethereum signature
  */
 export async function verifyEthereumSignature(
-  message: string,
+  message: SignableMessage,
   signature: string,
   address: string
 ): Promise<VerificationResult> {
   try {
     const isValid = await verifyMessage({
       address: address as `0x${string}`,
-      message,
+      message: typeof message === 'string' ? message : { raw: message },
       signature: signature as `0x${string}`,
     });
 
@@ -41,17 +50,87 @@ export async function verifyEthereumSignature(
   }
 }
 
+/**
+ * Verify an Ethereum EIP-712 typed-data signature
+ */
+export async function verifyEthereumTypedDataSignature(
+  typedData: TypedDataDefinition,
+  signature: string,
+  address: string
+): Promise<VerificationResult> {
+  try {
+    const isValid = await verifyTypedData({
+      ...typedData,
+      address: address as `0x${string}`,
+      signature: signature as `0x${string}`,
+    });
+
+    return {
+      valid: isValid,
+      error: isValid ? undefined : 'Signature verification failed',
+    };
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: error.message,
+    };
+  }
+}
+
+/**
+ * Verify a signed Ethereum EIP-1559 transaction
+ *
+ * Checks that the signed transaction is the one that was requested and that
+ * the recovered sender matches the wallet address.
+ */
+export async function verifyEthereumTransaction(
+  transaction: TransactionSerializableEIP1559,
+  signedTransaction: string,
+  address: string
+): Promise<VerificationResult> {
+  try {
+    const serializedTransaction = signedTransaction as `0x02${string}`;
+    const parsed = parseTransaction(serializedTransaction);
+
+    // Make sure the provider signed what we asked for
+    const numericFields = ['chainId', 'nonce', 'value', 'gas', 'maxFeePerGas', 'maxPriorityFeePerGas'] as const;
+    const mismatch = numericFields.find(field => BigInt(parsed[field] ?? 0) !== BigInt(transaction[field] ?? 0))
+      ?? (parsed.to?.toLowerCase() !== transaction.to?.toLowerCase() ? 'to' : undefined)
+      // Empty calldata parses as undefined
+      ?? ((parsed.data ?? '0x').toLowerCase() !== (transaction.data ?? '0x').toLowerCase() ? 'data' : undefined);
+    if (parsed.type !== 'eip1559' || mismatch) {
+      return {
+        valid: false,
+        error: `Signed transaction does not match request${mismatch ? ` (${mismatch})` : ''}`,
+      };
+    }
+
+    const sender = await recoverTransactionAddress({ serializedTransaction });
+    const isValid = isAddressEqual(sender, address as `0x${string}`);
+
+    return {
+      valid: isValid,
+      error: isValid ? undefined : `Recovered sender ${sender} does not match wallet address`,
+    };
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: error.message,
+    };
+  }
+}
+
 /**
  * Verify a Solana signature
  */
 export async function verifySolanaSignature(
-  message: string,
+  message: SignableMessage,
   signature: string,
   address: string
 ): Promise<VerificationResult> {
   try {
     // Convert message to bytes
-    const messageBytes = new TextEncoder().encode(message);
+    const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
 
     // Convert base64 signature to bytes
     const signatureBytes = Buffer.from(signature, 'base64');
@@ -78,3 +157,66 @@ export async function verifySolanaSignature(
     };
   }
 }
+
+/**
+ * Verify a signed Solana transfer transaction
+ *
+ * Fully offline: deserializes the transaction, checks it is the requested
+ * transfer paid for by the wallet, and verifies the fee payer's ed25519
+ * signature over the message bytes.
+ */
+export async function verifySolanaTransaction(
+  transfer: SolanaTransferRequest,
+  signedTransaction: string,
+  address: string
+): Promise<VerificationResult> {
+  try {
+    const transaction = Transaction.from(Buffer.from(signedTransaction, 'base64'));
+    const feePayer = new PublicKey(address);
+
+    // Make sure the provider signed what we asked for
+    const [instruction] = transaction.instructions;
+    const decoded = transaction.instructions.length === 1
+      ? SystemInstruction.decodeTransfer(instruction)
+      : undefined;
+
+    if (
+      !transaction.feePayer?.equals(feePayer) ||
+      transaction.recentBlockhash !== transfer.recentBlockhash ||
+      !decoded ||
+      !decoded.fromPubkey.equals(feePayer) ||
+      decoded.toPubkey.toBase58() !== transfer.toPubkey ||
+      decoded.lamports !== BigInt(transfer.lamports)
+    ) {
+      return {
+        valid: false,
+        error: 'Signed transaction does not match request',
+      };
+    }
+
+    // Fee payer signature is always the first one
+    const signature = transaction.signatures[0]?.signature;
+    if (!signature) {
+      return {
+        valid: false,
+        error: 'Transaction is missing the fee payer signature',
+      };
+    }
+
+    const isValid = nacl.sign.detached.verify(
+      transaction.serializeMessage(),
+      signature,
+      feePayer.toBytes()
+    );
+
+    return {
+      valid: isValid,
+      error: isValid ? undefined : 'Signature verification failed',
+    };
+  } catch (error: any) {
+    return {
+      valid: false,
+      error: error.message,
+    };
+  }
+}
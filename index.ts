@@ -4,29 +4,106 @@
  * Supports both interactive and command-line modes:
  *   npm run benchmark              # Interactive prompts
  *   npm run benchmark privy both 20    # Direct command
+ *   npm run benchmark -- privy both 20 --concurrency 5
  */
 
 // Load environment variables from .env.local
 import { config } from 'dotenv';
-config({ path: '.env.local', override: true });
+config({ path: '.env.local', override: true, quiet: true });
 
 import prompts from 'prompts';
-import { discoverServices, getAvailableServices } from './benchmarking/service-discovery.js';
+import type { WalletService } from './services/index.js';
+import { createService, discoverServices, getAvailableServices } from './benchmarking/service-discovery.js';
+import { formatServiceCheck, isServiceReady, runDoctor } from './benchmarking/doctor.js';
+import { CORPUS_SETS, loadCorpus } from './benchmarking/corpus.js';
+import {
+  CONFIG_FILE_NAMES,
+  loadConfigFile,
+  mergeSettings,
+  resolveProfile,
+  type RunSettings,
+} from './benchmarking/config-file.js';
 import { runBenchmarks } from './benchmarking/runner.js';
-import { calculateAllStats, formatServiceStats, rankServicesByChain, type ServiceStats } from './benchmarking/statistics.js';
-import { capitalize } from './benchmarking/utils.js';
-import type { BenchmarkConfig } from './benchmarking/runner.js';
+import {
+  calculateAllStats,
+  describeRankingMetric,
+  formatCI,
+  formatPayloadCurves,
+  formatServiceStats,
+  formatSpreadChart,
+  formatStartupTimes,
+  formatTieReason,
+  rankLeader,
+  rankServicesByChain,
+  RANKING_METRICS,
+  type RankingMetric,
+  type ServiceRanking,
+  type ServiceStats,
+} from './benchmarking/statistics.js';
+import {
+  capitalize,
+  describeOperation,
+  describeRunLength,
+  formatDuration,
+  parseDuration,
+  type Log,
+} from './benchmarking/utils.js';
+import {
+  createRunReport,
+  formatMarkdownReport,
+  formatStatsCsv,
+  inferFormat,
+  writeRunReport,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from './benchmarking/export.js';
+import {
+  checkRunName,
+  compareRuns,
+  formatComparison,
+  listRuns,
+  loadRun,
+  recordRun,
+  saveBaseline,
+  type HistoryEntry,
+} from './benchmarking/history.js';
+import { writeHtmlReport } from './benchmarking/html-report.js';
+import {
+  DEFAULT_TIMEOUT_MS,
+  SCHEDULE_MODES,
+  SIGNING_OPERATIONS,
+  STATS_MODES,
+  type BenchmarkConfig,
+  type RetryPolicy,
+  type ServiceOverrides,
+  type SigningOperation,
+  type ScheduleMode,
+  type StatsMode,
+} from './benchmarking/runner.js';
+
+const DEFAULT_REGRESSION_THRESHOLD = 10;
+const DEFAULT_RETRY_BACKOFF_MS = 250;
+
+const DEFAULT_DELAY_MS = 100;
 
 interface CLIArgs {
-  service?: string;
-  chain?: 'ethereum' | 'solana' | 'both';
-  iterations?: number;
+  command?: 'compare' | 'doctor' | 'history';
+  compareTarget?: string;
+  /** Service checked by doctor (default: all) */
+  doctorService?: string;
+  threshold?: number;
+  /** Named profile from the config file */
+  profile?: string;
+  /** Config file to use instead of the one in the working directory */
+  configPath?: string;
+  /** Settings given on the command line, which win over the config file */
+  settings: RunSettings;
 }
 
 function showHelp() {
   console.log(`V2 Wallet Service Benchmark Tool
 
-Usage: npm run benchmark [<service> <chain> <iterations>]
+Usage: npm run benchmark [<service> <chain> [<iterations>]] [options]
 
 Interactive Mode:
   npm run benchmark
@@ -38,20 +115,225 @@ Command-Line Mode:
   Arguments:
     service      Service name (e.g., privy, turnkey, dynamic) or "all"
     chain        ethereum, solana, or both
-    iterations   Number of iterations per chain (e.g., 20)
+    iterations   Number of iterations per chain (e.g., 20). Optional with
+                 --duration, where it caps the number of iterations
+
+  With --profile, arguments the profile sets can be left out; any that are
+  given override the profile.
+
+Options:
+  --profile <name>     Use a named profile from the config file
+  --config <file>      Config file to use (default: ${CONFIG_FILE_NAMES.join(' or ')}
+                       in the current directory, if present)
+  --concurrency <n>    Signing requests kept in flight per service/chain (default: 1)
+  --rate <n>           Open-loop mode: send n requests/sec on a fixed schedule,
+                       regardless of how long earlier requests take
+  --duration <time>    Soak test: keep signing for this long per service, chain
+                       and operation (e.g. 90s, 15m, 2h)
+  --summary-interval <time>
+                       Print a rolling summary and report percentiles for each
+                       interval of this length (default with --duration:
+                       a tenth of the duration, between 1s and 5m)
+  --stats <mode>       exact or streaming (default: exact). streaming keeps a
+                       fixed-size histogram instead of every result, so
+                       memory stays flat on long or high-throughput runs;
+                       percentiles are then accurate to within 0.8%
+  --schedule <mode>    ${SCHEDULE_MODES.join(', ')} (default: sequential).
+                       round-robin and shuffled alternate single calls across
+                       every service, chain and operation, so all of them see
+                       the same network conditions; not with --concurrency or --rate
+  --timeout <time>     Give up on a signing call after this long and count it
+                       as timed out (default: ${formatDuration(DEFAULT_TIMEOUT_MS)})
+  --retries <n>        Retry failed or timed-out calls up to n times
+                       (default: 0). Retries are reported separately
+  --retry-backoff <time>
+                       Wait before the first retry, doubled for each further
+                       retry (default: ${formatDuration(DEFAULT_RETRY_BACKOFF_MS)})
+  --http-phases <on|off>
+                       Break each call's HTTP time into DNS, connect, TLS,
+                       time to first byte and download, and report connection
+                       reuse (default: off; fetch-based adapters only)
+  --cold-start <on|off>
+                       Load and initialize a fresh service instance before
+                       every iteration and report initialization time
+                       separately (default: off; no warmups)
+  --operations <list>  Comma-separated signing operations to benchmark:
+                       ${SIGNING_OPERATIONS.join(', ')} (default: message).
+                       typed-data signs an EIP-712 permit (Ethereum only);
+                       transaction signs a standard transfer without
+                       broadcasting it (Ethereum and Solana)
+  --corpus <list>      Also sign a corpus of messages, each benchmarked separately,
+                       and report latency against payload size. Comma-separated:
+                       ${CORPUS_SETS.join(', ')} and/or file:<path>. sizes runs
+                       1 byte to 16 KB of text; unicode multi-script text; bytes
+                       raw binary payloads. Files hold one message per line, or
+                       a JSON array of strings, { "id", "text" } or
+                       { "id", "hex" } objects
+  --output <file>      Write results, statistics and run metadata to a file
+  --format <format>    json, csv or markdown (default: inferred from --output
+                       extension). markdown writes ranking and per-service
+                       tables for pull requests and docs. Without --output,
+                       the report is printed to stdout (csv prints the
+                       statistics table) and progress to stderr
+  --report <file>      Also write a self-contained HTML report with latency
+                       box plots, CDFs, histograms and a per-iteration timeline
+  --rank-by <metric>   ${RANKING_METRICS.join(', ')} (default: median).
+                       trimmed-mean ignores the fastest and slowest 10% of
+                       calls; composite weighs median and p95 and divides
+                       by the success rate, so failing services rank lower
+  --save-baseline <name>
+                       Also save this run as a named baseline for compare
+
+History:
+  Every run's statistics are recorded under .slate/history.
+
+  npm run benchmark history              # List recorded runs
+  npm run benchmark compare [<run>]      # Compare the latest run against <run>
+                                         # (a baseline name or run id; default:
+                                         # the previous run)
+    --threshold <percent>                # Median/p95 slowdown flagged as a
+                                         # regression (default: ${DEFAULT_REGRESSION_THRESHOLD})
 
 Examples:
   npm run benchmark privy ethereum 20    # Benchmark Privy on Ethereum with 20 iterations
   npm run benchmark privy solana 20      # Benchmark Privy on Solana with 20 iterations
   npm run benchmark privy both 20        # Benchmark Privy on both chains with 20 iterations
   npm run benchmark all both 20          # Benchmark all services on both chains
+  npm run benchmark -- privy ethereum 50 --concurrency 10
+                                         # Keep 10 Privy requests in flight at once
+  npm run benchmark -- all ethereum 100 --rate 5
+                                         # Send 5 requests/sec to every service
+  npm run benchmark -- privy ethereum --duration 2h --rate 1 --stats streaming
+                                         # Soak Privy at 1 request/sec for two hours
+  npm run benchmark -- privy ethereum 20 --operations message,typed-data
+                                         # Benchmark personal_sign and EIP-712 signing
+  npm run benchmark -- all both 50 --output results.json
+                                         # Save the full results as JSON
+  npm run benchmark -- --profile nightly # Run the "nightly" profile from slate.config.json
+
+Setup:
+  npm run benchmark doctor [<service>]   # Check each service's env vars, supported
+                                         # chains and operations, and whether
+                                         # initialize() succeeds, without
+                                         # running a benchmark
 
 Help:
   npm run benchmark help                 # Show this help message`);
 }
 
+/** Every `--name` option the command line understands */
+const KNOWN_FLAGS = [
+  'cold-start', 'concurrency', 'config', 'corpus', 'duration', 'format', 'http-phases', 'operations', 'output',
+  'profile', 'rank-by', 'rate', 'report', 'retries', 'retry-backoff', 'save-baseline', 'schedule', 'stats',
+  'summary-interval', 'threshold', 'timeout',
+];
+
+/**
+ * Split raw arguments into positional values and `--name value` options
+ *
+ * Exits with an error on unknown options, so a typo is not silently ignored.
+ */
+function splitArgs(args: string[]): { positional: string[]; flags: Map<string, string> } {
+  const positional: string[] = [];
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') continue; // Separator forwarded when not run through npm
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    // Only the first "=" separates the name, so values may contain "=" too
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    if (!KNOWN_FLAGS.includes(name)) {
+      console.log(`Error: unknown option --${name} (see "npm run benchmark help")`);
+      process.exit(1);
+    }
+
+    const value = separator === -1 ? args[++i] : arg.slice(separator + 1);
+    if (value === undefined) {
+      console.log(`Error: --${name} requires a value`);
+      process.exit(1);
+    }
+    flags.set(name, value);
+  }
+
+  return { positional, flags };
+}
+
+/**
+ * Parse a flag that must be a positive integer
+ */
+function parsePositiveInt(flags: Map<string, string>, name: string): number | undefined {
+  const raw = flags.get(name);
+  if (raw === undefined) return undefined;
+
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value < 1) {
+    console.log(`Error: --${name} must be a positive number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Parse a flag that must be zero or a positive integer
+ */
+function parseNonNegativeInt(flags: Map<string, string>, name: string): number | undefined {
+  const raw = flags.get(name);
+  if (raw === undefined) return undefined;
+
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value < 0) {
+    console.log(`Error: --${name} must be zero or a positive number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Parse a flag that must be a duration such as 90s, 15m or 2h
+ */
+function parseDurationFlag(flags: Map<string, string>, name: string): number | undefined {
+  const raw = flags.get(name);
+  if (raw === undefined) return undefined;
+
+  const value = parseDuration(raw);
+  if (value === undefined || value <= 0) {
+    console.log(`Error: --${name} must be a duration such as 90s, 15m or 2h`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Parse a flag that must be a positive number (fractions allowed)
+ */
+function parsePositiveNumber(flags: Map<string, string>, name: string): number | undefined {
+  const raw = flags.get(name);
+  if (raw === undefined) return undefined;
+
+  const value = parseFloat(raw);
+  if (isNaN(value) || value <= 0) {
+    console.log(`Error: --${name} must be a positive number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Default rolling-summary interval for a run: a tenth of it, between 1s and 5m
+ */
+function defaultSummaryInterval(durationMs: number): number {
+  return Math.min(5 * 60 * 1000, Math.max(1000, durationMs / 10));
+}
+
 function parseArgs(): CLIArgs {
-  const args = process.argv.slice(2);
+  const { positional: args, flags } = splitArgs(process.argv.slice(2));
 
   // Check for help
   if (args[0] === 'help') {
@@ -59,35 +341,130 @@ function parseArgs(): CLIArgs {
     process.exit(0);
   }
 
-  if (args.length === 0) {
-    return {}; // Interactive mode
+  if (args[0] === 'history') {
+    return { command: 'history', settings: {} };
   }
 
-  if (args.length < 3) {
-    console.log('Error: Invalid arguments\n');
-    showHelp();
+  if (args[0] === 'doctor') {
+    return { command: 'doctor', doctorService: args[1], settings: {} };
+  }
+
+  if (args[0] === 'compare') {
+    return {
+      command: 'compare',
+      compareTarget: args[1],
+      threshold: parsePositiveNumber(flags, 'threshold') ?? DEFAULT_REGRESSION_THRESHOLD,
+      settings: {},
+    };
+  }
+
+  const concurrency = parsePositiveInt(flags, 'concurrency');
+  const ratePerSecond = parsePositiveNumber(flags, 'rate');
+
+  if (concurrency !== undefined && ratePerSecond !== undefined) {
+    console.log('Error: --concurrency and --rate cannot be combined');
+    process.exit(1);
+  }
+
+  const durationMs = parseDurationFlag(flags, 'duration');
+  const summaryIntervalMs = parseDurationFlag(flags, 'summary-interval');
+
+  const statsMode = flags.get('stats') as StatsMode | undefined;
+  if (statsMode !== undefined && !STATS_MODES.includes(statsMode)) {
+    console.log(`Error: stats must be one of: ${STATS_MODES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const schedule = flags.get('schedule') as ScheduleMode | undefined;
+  if (schedule !== undefined && !SCHEDULE_MODES.includes(schedule)) {
+    console.log(`Error: schedule must be one of: ${SCHEDULE_MODES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const timeoutMs = parseDurationFlag(flags, 'timeout');
+  const retries = parseNonNegativeInt(flags, 'retries');
+  const retryBackoffMs = parseDurationFlag(flags, 'retry-backoff');
+
+  const httpPhasesFlag = flags.get('http-phases');
+  if (httpPhasesFlag !== undefined && httpPhasesFlag !== 'on' && httpPhasesFlag !== 'off') {
+    console.log('Error: --http-phases must be "on" or "off"');
+    process.exit(1);
+  }
+
+  const coldStartFlag = flags.get('cold-start');
+  if (coldStartFlag !== undefined && coldStartFlag !== 'on' && coldStartFlag !== 'off') {
+    console.log('Error: --cold-start must be "on" or "off"');
+    process.exit(1);
+  }
+
+  const operationsFlag = flags.get('operations');
+  const operations = operationsFlag?.split(',').map(op => op.trim()) as SigningOperation[] | undefined;
+  const unknownOperation = operations?.find(op => !SIGNING_OPERATIONS.includes(op));
+  if (unknownOperation !== undefined) {
+    console.log(`Error: unknown operation "${unknownOperation}" (expected: ${SIGNING_OPERATIONS.join(', ')})`);
+    process.exit(1);
+  }
+
+  const corpus = flags.get('corpus')?.split(',').map(spec => spec.trim());
+
+  const format = flags.get('format') as ExportFormat | undefined;
+  if (format !== undefined && !EXPORT_FORMATS.includes(format)) {
+    console.log(`Error: format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const rankBy = flags.get('rank-by') as RankingMetric | undefined;
+  if (rankBy !== undefined && !RANKING_METRICS.includes(rankBy)) {
+    console.log(`Error: rank-by must be one of: ${RANKING_METRICS.join(', ')}`);
     process.exit(1);
   }
 
+  // Positional arguments are all optional here; whatever is missing must
+  // come from the profile (or the interactive prompts)
   const [service, chain, iterationsStr] = args;
 
   // Validate chain
-  if (chain !== 'ethereum' && chain !== 'solana' && chain !== 'both') {
+  if (chain !== undefined && chain !== 'ethereum' && chain !== 'solana' && chain !== 'both') {
     console.log('Error: chain must be "ethereum", "solana", or "both"');
     process.exit(1);
   }
 
-  // Parse iterations
-  const iterations = parseInt(iterationsStr, 10);
-  if (isNaN(iterations) || iterations < 1) {
+  const iterations = iterationsStr === undefined ? undefined : parseInt(iterationsStr, 10);
+  if (iterations !== undefined && (isNaN(iterations) || iterations < 1)) {
     console.log('Error: iterations must be a positive number');
     process.exit(1);
   }
 
-  return { service, chain, iterations };
+  return {
+    profile: flags.get('profile'),
+    configPath: flags.get('config'),
+    settings: {
+      services: service === undefined ? undefined : [service],
+      chain,
+      iterations,
+      concurrency,
+      ratePerSecond,
+      durationMs,
+      summaryIntervalMs,
+      statsMode,
+      schedule,
+      timeoutMs,
+      retries,
+      retryBackoffMs,
+      httpPhases: httpPhasesFlag === undefined ? undefined : httpPhasesFlag === 'on',
+      coldStart: coldStartFlag === undefined ? undefined : coldStartFlag === 'on',
+      operations,
+      corpus,
+      output: flags.get('output'),
+      format,
+      report: flags.get('report'),
+      rankBy,
+      saveBaseline: flags.get('save-baseline'),
+    },
+  };
 }
 
-async function runInteractive() {
+async function runInteractive(): Promise<RunSettings> {
   console.log('🚀 Wallet Service Benchmark - Interactive Mode\n');
 
   // Get available services dynamically
@@ -146,93 +523,383 @@ async function runInteractive() {
   const iterations = iterationsResponse.iterations || 20;
 
   return {
-    service: serviceResponse.service,
+    services: [serviceResponse.service],
     chain: chainResponse.chain as 'ethereum' | 'solana' | 'both',
     iterations,
   };
 }
 
-function displayRankings(allStats: ServiceStats[], chain: 'ethereum' | 'solana') {
-  const rankings = rankServicesByChain(allStats, chain);
+/**
+ * The value a service was ranked by, unless the ranking line already shows it
+ */
+function describeScore(ranking: ServiceRanking): string {
+  switch (ranking.metric) {
+    case 'trimmed-mean': return `${ranking.trimmedMean.toFixed(2)}ms trimmed mean, `;
+    case 'composite': return `score ${ranking.score.toFixed(2)}, `;
+    default: return '';
+  }
+}
+
+function displayRankings(
+  allStats: ServiceStats[],
+  chain: 'ethereum' | 'solana',
+  operation: SigningOperation,
+  metric: RankingMetric = 'median',
+  log: Log = console.log
+) {
+  const rankings = rankServicesByChain(allStats, chain, operation, metric);
   if (rankings.length === 0) return;
 
-  console.log(`\n🏆 ${chain.toUpperCase()} RANKINGS:`);
-  rankings.forEach(ranking => {
+  const by = metric === 'median' ? '' : ` BY ${describeRankingMetric(metric).toUpperCase()}`;
+  log(`\n🏆 ${describeOperation(chain, operation).toUpperCase()} RANKINGS${by}:`);
+  rankings.forEach((ranking, index) => {
     const medal = ['🥇', '🥈', '🥉'][ranking.rank - 1] ?? `#${ranking.rank}`;
-    console.log(`${medal} ${capitalize(ranking.serviceName)}: ${ranking.median.toFixed(2)}ms median, ${ranking.mean.toFixed(2)}ms avg, ${ranking.p95.toFixed(2)}ms p95`);
+    log(`${medal} ${capitalize(ranking.serviceName)}: ${describeScore(ranking)}${ranking.median.toFixed(2)}ms median ${formatCI(ranking.medianCI)}, ${ranking.mean.toFixed(2)}ms avg, ${ranking.p95.toFixed(2)}ms p95, ${ranking.throughput.toFixed(2)} sig/s`);
+
+    if (ranking.tiedWithLeader) {
+      const leader = capitalize(rankLeader(rankings, ranking).serviceName);
+      log(`   ↳ not significantly different from ${leader} (${formatTieReason(ranking)})`);
+    }
+
+    if (ranking.outlierCount > 0) {
+      log(`   ↳ ${ranking.outlierCount} outlier${ranking.outlierCount === 1 ? '' : 's'} flagged (kept in the mean and percentiles)`);
+    }
+
+    if (ranking.timingSuspect) {
+      log('   ↳ ⚠️  self-reported latency failed the wall-clock cross-check (see results above)');
+    }
   });
+
+  if (rankings.length > 1) {
+    log(`\n${formatSpreadChart(allStats, chain, operation, metric)}`);
+  }
 }
 
-async function runBenchmarkWithConfig(service: string, chain: 'ethereum' | 'solana' | 'both', iterations: number) {
-  const config: BenchmarkConfig = {
+/**
+ * Show each service's latency against payload size, per chain
+ */
+function displayPayloadCurves(allStats: ServiceStats[], chain: BenchmarkConfig['chain'], log: Log = console.log) {
+  const chains: ('ethereum' | 'solana')[] = chain === 'both' ? ['ethereum', 'solana'] : [chain];
+  const tables = chains
+    .map(c => formatPayloadCurves(allStats, c))
+    .filter((table): table is string => table !== undefined);
+  if (tables.length === 0) return;
+
+  log('\n📏 LATENCY BY PAYLOAD SIZE:\n');
+  log(tables.join('\n\n'));
+}
+
+/**
+ * Show how long each service took to initialize and make its first call
+ */
+function displayStartupTimes(allStats: ServiceStats[], log: Log = console.log) {
+  const table = formatStartupTimes(allStats);
+  if (!table) return;
+
+  log('\n🧊 STARTUP:\n');
+  log(table);
+}
+
+/**
+ * Run settings with everything a benchmark needs
+ */
+type CompleteSettings = RunSettings & Required<Pick<RunSettings, 'services' | 'chain' | 'iterations'>>;
+
+/**
+ * Check that the merged settings say what to benchmark
+ *
+ * Iterations may be left out of duration-based runs, which are then
+ * bounded by time only.
+ */
+function completeSettings(settings: RunSettings, profile: string | undefined): CompleteSettings {
+  const source = profile ? `pass it as an argument or set it in profile "${profile}"` : 'pass it as an argument';
+  const iterations = settings.iterations ?? (settings.durationMs !== undefined ? Number.MAX_SAFE_INTEGER : undefined);
+
+  const missing = !settings.services ? 'service' : !settings.chain ? 'chain' : iterations === undefined ? 'iterations' : undefined;
+  if (missing) {
+    console.log(`Error: no ${missing} given (${source})\n`);
+    showHelp();
+    process.exit(1);
+  }
+
+  return { ...settings, services: settings.services!, chain: settings.chain!, iterations: iterations! };
+}
+
+/**
+ * Retry policy for a run, if retries are enabled
+ */
+function createRetryPolicy(settings: RunSettings): RetryPolicy | undefined {
+  return settings.retries
+    ? { maxRetries: settings.retries, backoffMs: settings.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS }
+    : undefined;
+}
+
+/**
+ * Build the runner config for a set of run settings, ignoring per-service overrides
+ */
+function createBaseConfig(settings: CompleteSettings): BenchmarkConfig {
+  const { chain, iterations } = settings;
+  return {
     chain,
     iterations,
-    warmupIterations: Math.min(3, Math.floor(iterations / 5)),
-    delayMs: 100,
+    warmupIterations: settings.warmupIterations ?? Math.min(3, Math.floor(iterations / 5)),
+    delayMs: settings.delayMs ?? DEFAULT_DELAY_MS,
+    concurrency: settings.concurrency ?? 1,
+    ratePerSecond: settings.ratePerSecond,
+    runDurationMs: settings.durationMs,
+    summaryIntervalMs: settings.summaryIntervalMs
+      ?? (settings.durationMs !== undefined ? defaultSummaryInterval(settings.durationMs) : undefined),
+    statsMode: settings.statsMode,
+    schedule: settings.schedule,
+    rankBy: settings.rankBy,
+    timeoutMs: settings.timeoutMs,
+    retry: createRetryPolicy(settings),
+    httpPhases: settings.httpPhases,
+    coldStart: settings.coldStart,
+    operations: settings.operations,
+    messages: settings.messages,
+    corpus: settings.corpus && loadCorpus(settings.corpus),
   };
+}
+
+/**
+ * Build the runner config, including per-service overrides
+ *
+ * Each override records only the config values that end up different for
+ * that service, so derived values (e.g. warmup from iterations) follow too.
+ */
+function createBenchmarkConfig(settings: CompleteSettings): BenchmarkConfig {
+  const config = createBaseConfig(settings);
+  if (!settings.overrides) return config;
+
+  const serviceOverrides: Record<string, ServiceOverrides> = {};
+  for (const [service, override] of Object.entries(settings.overrides)) {
+    const serviceConfig = createBaseConfig(mergeSettings(settings, override) as CompleteSettings);
+    serviceOverrides[service] = Object.fromEntries(
+      Object.entries(serviceConfig).filter(([key, value]) =>
+        JSON.stringify(value) !== JSON.stringify(config[key as keyof BenchmarkConfig])
+      )
+    );
+  }
+
+  return { ...config, serviceOverrides };
+}
+
+/**
+ * Load every service named in the settings ("all" loads all of them)
+ *
+ * Services missing env vars required for the chains being benchmarked are skipped.
+ */
+async function loadServices(
+  names: string[],
+  chain: BenchmarkConfig['chain'],
+  log: Log = console.log
+): Promise<Map<string, WalletService>> {
+  const chains: ('ethereum' | 'solana')[] = chain === 'both' ? ['ethereum', 'solana'] : [chain];
+  const services = new Map<string, WalletService>();
+  for (const name of names) {
+    for (const [serviceName, service] of await discoverServices(name, undefined, chains, log)) {
+      services.set(serviceName, service);
+    }
+  }
+  return services;
+}
+
+async function runBenchmarkWithConfig(settings: CompleteSettings) {
+  const config = createBenchmarkConfig(settings);
+  const { chain } = config;
+
+  // A report printed to stdout must stay parseable, so progress goes to stderr instead
+  const format = settings.format ?? (settings.output ? inferFormat(settings.output) : undefined);
+  const printReport = format !== undefined && !settings.output;
+  const log: Log = printReport ? console.error : console.log;
+
+  // Reject a bad baseline name before the run rather than after it
+  if (settings.saveBaseline) checkRunName(settings.saveBaseline);
 
   const chainDisplay = chain === 'both' ? 'Ethereum and Solana' : capitalize(chain);
-  console.log(`🚀 Starting wallet service benchmark for ${chainDisplay} (${iterations} iterations)\n`);
+  const loadDisplay = config.ratePerSecond
+    ? `, open-loop at ${config.ratePerSecond} req/s`
+    : config.concurrency! > 1 ? `, concurrency ${config.concurrency}` : '';
+  log(`🚀 Starting wallet service benchmark for ${chainDisplay} (${describeRunLength(config)}${loadDisplay})\n`);
 
   // Discover services
-  const services = await discoverServices(service === 'all' ? undefined : service);
+  const services = await loadServices(settings.services, chain, log);
 
   if (services.size === 0) {
-    console.log(`No services found matching: ${service}`);
+    log(`No services found matching: ${settings.services.join(', ')}`);
     process.exit(1);
   }
 
   // Run benchmarks
-  const results = await runBenchmarks(services, config);
+  // Cold mode re-creates each service through discovery before every iteration
+  const factories = config.coldStart
+    ? new Map([...services.keys()].map(name => [name, () => createService(name)]))
+    : undefined;
+  const results = await runBenchmarks(services, config, factories, log);
 
   // Calculate statistics
   const allStats = calculateAllStats(results);
 
   // Display results
-  console.log('='.repeat(60));
-  console.log('📊 BENCHMARK RESULTS');
-  console.log('='.repeat(60));
+  log('='.repeat(60));
+  log('📊 BENCHMARK RESULTS');
+  log('='.repeat(60));
 
   if (allStats.length === 1) {
     // Single service - detailed view
-    console.log(`\n${capitalize(allStats[0].serviceName)}:\n`);
-    console.log(formatServiceStats(allStats[0]));
+    log(`\n${capitalize(allStats[0].serviceName)}:\n`);
+    log(formatServiceStats(allStats[0]));
   } else {
     // Multiple services - rankings + detailed stats
+    const operations = config.operations ?? ['message'];
+
     if (chain === 'ethereum' || chain === 'both') {
-      displayRankings(allStats, 'ethereum');
+      operations.forEach(operation => displayRankings(allStats, 'ethereum', operation, config.rankBy, log));
     }
 
     if (chain === 'solana' || chain === 'both') {
-      displayRankings(allStats, 'solana');
+      operations.forEach(operation => displayRankings(allStats, 'solana', operation, config.rankBy, log));
     }
 
+    displayStartupTimes(allStats, log);
+
     // Detailed stats for each service
-    console.log('\n📈 DETAILED STATISTICS:\n');
+    log('\n📈 DETAILED STATISTICS:\n');
     allStats.forEach((stats, index) => {
-      if (index > 0) console.log('');
-      console.log(`${capitalize(stats.serviceName)}:\n`);
-      console.log(formatServiceStats(stats));
+      if (index > 0) log('');
+      log(`${capitalize(stats.serviceName)}:\n`);
+      log(formatServiceStats(stats));
     });
   }
 
+  if (config.corpus?.length) {
+    displayPayloadCurves(allStats, chain, log);
+  }
+
+  log('');
+
+  const report = createRunReport(config, results, allStats);
+
+  // Record in history
+  const entry = recordRun(report);
+  if (settings.saveBaseline) {
+    saveBaseline(settings.saveBaseline, entry);
+    log(`📌 Saved as baseline "${settings.saveBaseline}"\n`);
+  }
+
+  if (settings.report) {
+    writeHtmlReport(report, settings.report);
+    log(`📄 HTML report written to ${settings.report}\n`);
+  }
+
+  // Machine-readable export
+  if (format && settings.output) {
+    const written = writeRunReport(report, settings.output, format);
+    log(`💾 Results written to ${written.join(', ')}\n`);
+  } else if (printReport) {
+    const output = format === 'csv'
+      ? formatStatsCsv(report)
+      : format === 'markdown' ? formatMarkdownReport(report) : JSON.stringify(report, null, 2);
+    process.stdout.write(`${output}\n`);
+  }
+
+  log('✅ Benchmark completed successfully!');
+}
+
+function showHistory() {
+  const runs = listRuns();
+  if (runs.length === 0) {
+    console.log('No runs recorded yet.');
+    return;
+  }
+
+  console.log('📜 RUN HISTORY:\n');
+  runs.forEach(run => {
+    const services = run.stats.map(s => capitalize(s.serviceName)).join(', ');
+    console.log(`${run.id}  ${run.metadata.config.chain}, ${describeRunLength(run.metadata.config)}  [${services}]`);
+  });
+}
+
+/**
+ * Compare the latest run against an earlier run or baseline
+ *
+ * @returns True if any service regressed beyond the threshold
+ */
+function runCompare(target: string | undefined, thresholdPercent: number): boolean {
+  const runs = listRuns();
+  const latest = runs[runs.length - 1];
+  if (!latest) {
+    throw new Error('No runs recorded yet');
+  }
+
+  let previous: HistoryEntry;
+  if (target) {
+    previous = loadRun(target);
+  } else if (runs.length >= 2) {
+    previous = runs[runs.length - 2];
+  } else {
+    throw new Error('Need at least two recorded runs to compare');
+  }
+
+  console.log(`🔍 Comparing ${latest.id} against ${target ?? previous.id}\n`);
+
+  const rows = compareRuns(latest, previous, thresholdPercent);
+  console.log(formatComparison(rows, thresholdPercent));
   console.log('');
+
+  return rows.some(row => row.regressed);
+}
+
+/**
+ * Check every service's env vars, supported chains and initialize()
+ *
+ * @returns True if every checked service is ready to benchmark
+ */
+async function runDoctorCommand(service: string | undefined): Promise<boolean> {
+  console.log('🩺 Checking services...\n');
+  const checks = await runDoctor(service);
+
+  checks.forEach((check, index) => {
+    if (index > 0) console.log('');
+    console.log(formatServiceCheck(check));
+  });
+
+  const ready = checks.filter(isServiceReady).length;
+  console.log(`\n${ready}/${checks.length} services ready to benchmark`);
+  return ready === checks.length;
 }
 
 async function main() {
   try {
     const args = parseArgs();
 
-    if (!args.service) {
+    if (args.command === 'history') {
+      showHistory();
+      process.exit(0);
+    }
+
+    if (args.command === 'doctor') {
+      const ready = await runDoctorCommand(args.doctorService);
+      process.exit(ready ? 0 : 1);
+    }
+
+    if (args.command === 'compare') {
+      const regressed = runCompare(args.compareTarget, args.threshold!);
+      console.log(regressed ? '⚠️  Regressions detected' : '✅ No regressions detected');
+      process.exit(regressed ? 1 : 0);
+    }
+
+    // Config file defaults, then the profile, then command-line arguments
+    const configFile = await loadConfigFile(args.configPath);
+    let settings = mergeSettings(resolveProfile(configFile, args.profile), args.settings);
+
+    if (!args.settings.services && !args.profile) {
       // Interactive mode
-      const config = await runInteractive();
-      await runBenchmarkWithConfig(config.service, config.chain, config.iterations);
-    } else {
-      // Command-line mode
-      await runBenchmarkWithConfig(args.service!, args.chain!, args.iterations!);
+      settings = mergeSettings(settings, await runInteractive());
     }
 
-    console.log('✅ Benchmark completed successfully!');
+    await runBenchmarkWithConfig(completeSettings(settings, args.profile));
   } catch (error: any) {
     console.error(`\n❌ Benchmark failed: ${error.message}`);
     process.exit(1);
@@ -11,6 +11,9 @@
  * See the architecture doc for a complete implementation example.
  */
 
+import { PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import type { TransactionSerializableEIP1559, TypedDataDefinition } from 'viem';
+
 /**
  * Wallet service interface
  *
@@ -72,10 +75,18 @@ export interface WalletService {
    * }
    * ```
    *
+   * Every signing method also receives `SignOptions`. Pass `options.signal`
+   * to your HTTP client or SDK so a call the runner has timed out is actually
+   * cancelled; the runner stops waiting at the timeout either way.
+   *
+   * Message corpus runs (`--corpus bytes`) pass raw payloads as a
+   * `Uint8Array`; sign those bytes as-is rather than as text.
+   *
    * @param message - The test message to sign (passed by benchmark runner)
+   * @param options - Cancellation signal for the call (passed by benchmark runner)
    * @returns ServiceResult with signature, API latency in milliseconds, and wallet address
    */
-  signMessageEthereum?(message: string): Promise<ServiceResult>;
+  signMessageEthereum?(message: SignableMessage, options?: SignOptions): Promise<ServiceResult>;
 
   /**
    * Sign a Solana message (optional)
@@ -97,20 +108,114 @@ export interface WalletService {
    * async signMessageSolana(message: string = STANDARD_SOLANA_MESSAGE): Promise<ServiceResult>
    * ```
    *
+   * As on Ethereum, raw payloads arrive as a `Uint8Array`; text is signed as its UTF-8 bytes.
+   *
    * @param message - The test message to sign (should default to STANDARD_SOLANA_MESSAGE in implementation)
    * @returns ServiceResult with signature, API latency in milliseconds, and wallet address
    */
-  signMessageSolana?(message: string): Promise<ServiceResult>;
+  signMessageSolana?(message: SignableMessage, options?: SignOptions): Promise<ServiceResult>;
+
+  /**
+   * Sign EIP-712 typed data on Ethereum (optional)
+   *
+   * If your service supports `eth_signTypedData_v4`, implement this method.
+   * The benchmark runner will pass STANDARD_ETHEREUM_TYPED_DATA.
+   *
+   * Timing rules are the same as for `signMessageEthereum`: time **only** the
+   * signing API call. Converting the payload to your API's format (e.g.
+   * serializing bigint fields or hashing it client-side) is not timed.
+   *
+   * @param typedData - The typed data to sign (passed by benchmark runner)
+   * @returns ServiceResult with signature, API latency in milliseconds, and wallet address
+   */
+  signTypedDataEthereum?(typedData: TypedDataDefinition, options?: SignOptions): Promise<ServiceResult>;
+
+  /**
+   * Sign an Ethereum EIP-1559 transaction without broadcasting it (optional)
+   *
+   * If your service supports `eth_signTransaction`, implement this method.
+   * The benchmark runner will pass STANDARD_ETHEREUM_TRANSACTION.
+   *
+   * Timing rules are the same as for `signMessageEthereum`: time **only** the
+   * signing API call.
+   *
+   * Return the RLP-serialized signed transaction (0x-prefixed hex) as
+   * `signature`. Verification parses it, checks it matches the requested
+   * transaction and recovers the sender, which must equal `walletAddress`.
+   *
+   * @param transaction - The unsigned transaction to sign (passed by benchmark runner)
+   * @returns ServiceResult with the signed transaction, API latency in milliseconds, and wallet address
+   */
+  signTransactionEthereum?(transaction: TransactionSerializableEIP1559, options?: SignOptions): Promise<ServiceResult>;
+
+  /**
+   * Sign a Solana transfer transaction without broadcasting it (optional)
+   *
+   * If your service supports Solana transaction signing, implement this method.
+   * The benchmark runner will pass STANDARD_SOLANA_TRANSFER. Build the unsigned
+   * transaction with your wallet as fee payer using `createSolanaTransferTransaction()`
+   * (not timed), then time **only** the signing API call.
+   *
+   * Return the signed transaction serialized as base64 as `signature`.
+   * Verification deserializes it, checks it matches the requested transfer and
+   * verifies the fee payer's ed25519 signature over the message bytes.
+   *
+   * @param transfer - The transfer to sign (passed by benchmark runner)
+   * @returns ServiceResult with the signed transaction, API latency in milliseconds, and wallet address
+   */
+  signTransactionSolana?(transfer: SolanaTransferRequest, options?: SignOptions): Promise<ServiceResult>;
+
+}
+
+/**
+ * A message to sign: text, or raw bytes
+ */
+export type SignableMessage = string | Uint8Array;
+
+/**
+ * Per-call options passed to every signing method
+ */
+export interface SignOptions {
+  /**
+   * Aborted when the runner gives up on the call (per-call timeout)
+   *
+   * Forward it to `fetch` or your SDK's request options where supported.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error thrown by wallet service adapters
+ *
+ * Set `status` to the provider's HTTP status code when there is one, and
+ * pass the original error as `cause`. The runner uses both to classify
+ * failures (rate limiting, auth, 5xx, network, ...) in the report.
+ *
+ * ```typescript
+ * if (!response.ok) {
+ *   throw new WalletServiceError(`API error: ${response.statusText}`, { status: response.status });
+ * }
+ * ```
+ */
+export class WalletServiceError extends Error {
+  /** HTTP status code returned by the provider, if any */
+  readonly status?: number;
 
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'WalletServiceError';
+    this.status = options.status;
+  }
 }
 
 /**
  * Result from a wallet service operation
  *
- * Return this from signMessageEthereum() and signMessageSolana()
+ * Return this from signMessageEthereum(), signMessageSolana() and the
+ * optional typed-data and transaction signing methods
  */
 export interface ServiceResult {
-  /** The signature from your API */
+  /** The signature from your API (the serialized signed transaction for transaction signing) */
   signature: string;
 
   /**
@@ -131,6 +236,59 @@ export interface ServiceResult {
   walletAddress: string;
 }
 
+// ===== ENVIRONMENT MANIFEST =====
+
+/**
+ * An environment variable your service reads
+ */
+export interface EnvVar {
+  name: string;
+  /** Where to find the value, shown by `npm run benchmark doctor` */
+  description: string;
+  /** Optional variables have a default or only enable extras */
+  optional?: boolean;
+  /** Chains the variable is needed for (default: every chain) */
+  chains?: ('ethereum' | 'solana')[];
+}
+
+/**
+ * Declarative description of what your service needs to run
+ *
+ * Export it from your service's index.ts as `manifest`, so discovery and
+ * `npm run benchmark doctor` can check the configuration without calling
+ * initialize():
+ *
+ * ```typescript
+ * export const manifest: ServiceManifest = {
+ *   chains: ['ethereum', 'solana'],
+ *   env: [
+ *     { name: 'ACME_API_KEY', description: 'API key from the Acme dashboard' },
+ *     { name: 'ACME_SOLANA_WALLET_ID', description: 'Solana wallet to sign with', chains: ['solana'] },
+ *   ],
+ * };
+ * ```
+ */
+export interface ServiceManifest {
+  /** Chains your service can sign on */
+  chains: ('ethereum' | 'solana')[];
+  env: EnvVar[];
+}
+
+/**
+ * Required variables of a manifest that are not set
+ *
+ * @param chains - Only check variables needed for these chains (default: every chain of the service)
+ */
+export function missingEnvVars(
+  manifest: ServiceManifest,
+  chains: ('ethereum' | 'solana')[] = manifest.chains
+): string[] {
+  return manifest.env
+    .filter(v => !v.optional && !process.env[v.name])
+    .filter(v => !v.chains || v.chains.some(chain => chains.includes(chain)))
+    .map(v => v.name);
+}
+
 // ===== STANDARD BENCHMARK MESSAGES =====
 // These messages are used consistently across all services to ensure fair comparison
 
@@ -145,3 +303,96 @@ export const STANDARD_ETHEREUM_MESSAGE = "Hello, Ethereum";
  * All services will sign this exact message for consistent testing
  */
 export const STANDARD_SOLANA_MESSAGE = "Hello, Solana";
+
+/**
+ * Standard EIP-712 payload for Ethereum typed-data signing benchmarks
+ *
+ * An EIP-2612 permit, the most common typed-data request in production.
+ * Verification checks the recovered signer, so the fixed owner and spender
+ * addresses do not need to match the signing wallet.
+ */
+export const STANDARD_ETHEREUM_TYPED_DATA = {
+  domain: {
+    name: 'SLATE Token',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0x0000000000000000000000000000000000005a7e',
+  },
+  types: {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  },
+  primaryType: 'Permit',
+  message: {
+    owner: '0x0000000000000000000000000000000000000001',
+    spender: '0x0000000000000000000000000000000000000002',
+    value: 1000000000000000000n,
+    nonce: 0n,
+    deadline: 4102444800n,
+  },
+} as const satisfies TypedDataDefinition;
+
+/**
+ * Standard unsigned transaction for Ethereum transaction signing benchmarks
+ *
+ * A plain zero-value EIP-1559 transfer on Sepolia with fixed nonce and gas
+ * fields, so it never needs network access to prepare and is harmless if it
+ * ever ends up broadcast.
+ */
+export const STANDARD_ETHEREUM_TRANSACTION: TransactionSerializableEIP1559 = {
+  type: 'eip1559',
+  chainId: 11155111,
+  nonce: 0,
+  to: '0x0000000000000000000000000000000000005a7e',
+  value: 0n,
+  gas: 21000n,
+  maxFeePerGas: 20000000000n,
+  maxPriorityFeePerGas: 1000000000n,
+  data: '0x',
+};
+
+/**
+ * A Solana SOL transfer from the signing wallet
+ */
+export interface SolanaTransferRequest {
+  /** Fixed blockhash so the transaction can be built without network access */
+  recentBlockhash: string;
+  /** Recipient address (base58) */
+  toPubkey: string;
+  lamports: number;
+}
+
+/**
+ * Standard transfer for Solana transaction signing benchmarks
+ *
+ * The blockhash is fixed and never valid on-chain, so signed transactions
+ * cannot be broadcast.
+ */
+export const STANDARD_SOLANA_TRANSFER: SolanaTransferRequest = {
+  recentBlockhash: 'ESfjXQSUi2CR8CouYqGa9jxsNrC7HeHwLiSejfpD7r3e',
+  toPubkey: 'BATT8wX97be4KVrtYGHF4iZhWLPGKcFPVyoZdmNBM3t',
+  lamports: 1000,
+};
+
+/**
+ * Build the unsigned transaction for a transfer, paid for and sent by `feePayer`
+ */
+export function createSolanaTransferTransaction(transfer: SolanaTransferRequest, feePayer: string): Transaction {
+  const fromPubkey = new PublicKey(feePayer);
+
+  return new Transaction({
+    feePayer: fromPubkey,
+    recentBlockhash: transfer.recentBlockhash,
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey,
+      toPubkey: new PublicKey(transfer.toPubkey),
+      lamports: transfer.lamports,
+    })
+  );
+}
@@ -1,10 +1,36 @@
-import type { WalletService, ServiceResult } from '../index.js';
+import { hashTypedData, type TypedDataDefinition } from 'viem';
+import {
+  missingEnvVars,
+  WalletServiceError,
+  type ServiceManifest,
+  type ServiceResult,
+  type SignableMessage,
+  type SignOptions,
+  type WalletService,
+} from '../index.js';
+
+export const manifest: ServiceManifest = {
+  chains: ['ethereum', 'solana'],
+  env: [
+    { name: 'MAGIC_API_KEY', description: 'Secret key from the Magic dashboard' },
+    { name: 'MAGIC_OIDC_PROVIDER_ID', description: 'OIDC provider ID configured in the Magic dashboard' },
+    { name: 'MAGIC_JWT_TOKEN', description: 'JWT issued by that OIDC provider for the benchmark user' },
+  ],
+};
 
 // Magic Express API types based on documentation
 interface MagicWalletResponse {
   public_address: string;
 }
 
+interface MagicSignDataResponse {
+  message_hash: string;
+  signature: string;
+  r: string;
+  s: string;
+  v: string;
+}
+
 interface MagicSignResponse {
   signature: string;
   r: string;
@@ -28,16 +54,17 @@ export default class MagicWalletService implements WalletService {
       return;
     }
 
-    // Load credentials from environment variables
-    this.jwtToken = '';
-    this.apiKey = ''
-    this.oidcProviderId = '';
-
     // Validate required configuration
-    if (!this.jwtToken || !this.apiKey || !this.oidcProviderId) {
-      throw new Error('Missing required env vars: MAGIC_JWT_TOKEN, MAGIC_API_KEY, MAGIC_OIDC_PROVIDER_ID');
+    const missing = missingEnvVars(manifest);
+    if (missing.length > 0) {
+      throw new Error(`Missing required env vars: ${missing.join(', ')}`);
     }
 
+    // Load credentials from environment variables
+    this.jwtToken = process.env.MAGIC_JWT_TOKEN;
+    this.apiKey = process.env.MAGIC_API_KEY;
+    this.oidcProviderId = process.env.MAGIC_OIDC_PROVIDER_ID;
+
     try {
       // Get or create Ethereum wallet to ensure it exists
       this.ethereumWalletAddress = await this.getOrCreateWallet('ETH');
@@ -64,21 +91,23 @@ export default class MagicWalletService implements WalletService {
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to get/create wallet for ${chain}: ${response.statusText}`);
+      throw new WalletServiceError(`Failed to get/create wallet for ${chain}: ${response.statusText}`, {
+        status: response.status,
+      });
     }
 
     const data: MagicWalletResponse = await response.json();
     return data.public_address;
   }
 
-  async signMessageEthereum(message: string): Promise<ServiceResult> {
+  async signMessageEthereum(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
     if (!this.isInitialized) {
       throw new Error('Not initialized. Call initialize() first.');
     }
 
     try {
       // Encode message as base64 (not timed)
-      const messageBase64 = Buffer.from(message, 'utf8').toString('base64');
+      const messageBase64 = (typeof message === 'string' ? Buffer.from(message, 'utf8') : Buffer.from(message)).toString('base64');
 
       // Time ONLY the API call
       const apiStart = performance.now();
@@ -94,11 +123,12 @@ export default class MagicWalletService implements WalletService {
         body: JSON.stringify({
           message_base64: messageBase64,
         }),
+        signal: options?.signal,
       });
       const apiEnd = performance.now();
 
       if (!response.ok) {
-        throw new Error(`Magic API error: ${response.statusText}`);
+        throw new WalletServiceError(`Magic API error: ${response.statusText}`, { status: response.status });
       }
 
       const data: MagicSignResponse = await response.json();
@@ -113,11 +143,11 @@ export default class MagicWalletService implements WalletService {
       return serviceResult;
 
     } catch (error: any) {
-      throw new Error(`Ethereum signing failed: ${error.message}`);
+      throw new WalletServiceError(`Ethereum signing failed: ${error.message}`, { status: error.status, cause: error });
     }
   }
 
-  async signMessageSolana(message: string): Promise<ServiceResult> {
+  async signMessageSolana(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
     if (!this.isInitialized) {
       throw new Error('Not initialized. Call initialize() first.');
     }
@@ -128,7 +158,7 @@ export default class MagicWalletService implements WalletService {
 
     try {
       // Encode message as base64 (not timed)
-      const messageBase64 = Buffer.from(message, 'utf8').toString('base64');
+      const messageBase64 = (typeof message === 'string' ? Buffer.from(message, 'utf8') : Buffer.from(message)).toString('base64');
 
       // Time ONLY the API call
       const apiStart = performance.now();
@@ -144,11 +174,12 @@ export default class MagicWalletService implements WalletService {
         body: JSON.stringify({
           message_base64: messageBase64,
         }),
+        signal: options?.signal,
       });
       const apiEnd = performance.now();
 
       if (!response.ok) {
-        throw new Error(`Magic API error: ${response.statusText}`);
+        throw new WalletServiceError(`Magic API error: ${response.statusText}`, { status: response.status });
       }
 
       const data: MagicSignResponse = await response.json();
@@ -163,7 +194,54 @@ export default class MagicWalletService implements WalletService {
       return serviceResult;
 
     } catch (error: any) {
-      throw new Error(`Solana signing failed: ${error.message}`);
+      throw new WalletServiceError(`Solana signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTypedDataEthereum(typedData: TypedDataDefinition, options?: SignOptions): Promise<ServiceResult> {
+    if (!this.isInitialized) {
+      throw new Error('Not initialized. Call initialize() first.');
+    }
+
+    try {
+      // Magic has no typed-data endpoint - hash the EIP-712 payload and sign
+      // the raw digest instead (not timed)
+      const rawDataHash = hashTypedData(typedData);
+
+      // Time ONLY the API call
+      const apiStart = performance.now();
+      const response = await fetch(`${this.MAGIC_BASE_URL}/wallet/sign/data`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.jwtToken}`,
+          'X-Magic-Secret-Key': this.apiKey!,
+          'X-OIDC-Provider-ID': this.oidcProviderId!,
+          'X-Magic-Chain': 'ETH',
+        },
+        body: JSON.stringify({
+          raw_data_hash: rawDataHash,
+        }),
+        signal: options?.signal,
+      });
+      const apiEnd = performance.now();
+
+      if (!response.ok) {
+        throw new WalletServiceError(`Magic API error: ${response.statusText}`, { status: response.status });
+      }
+
+      const data: MagicSignDataResponse = await response.json();
+
+      const serviceResult: ServiceResult = {
+        signature: data.signature,
+        apiLatencyMs: apiEnd - apiStart,
+        walletAddress: this.ethereumWalletAddress!, // Required for signature verification
+      };
+
+      return serviceResult;
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum typed data signing failed: ${error.message}`, { status: error.status, cause: error });
     }
   }
 }
@@ -0,0 +1,292 @@
+import { Keypair } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import type { TransactionSerializableEIP1559, TypedDataDefinition } from 'viem';
+import {
+  createSolanaTransferTransaction,
+  WalletServiceError,
+  type ServiceManifest,
+  type ServiceResult,
+  type SignableMessage,
+  type SignOptions,
+  type SolanaTransferRequest,
+  type WalletService,
+} from '../index.js';
+
+/**
+ * Local mock wallet service
+ *
+ * Signs for real with freshly generated secp256k1 and ed25519 keys, so every
+ * signature passes verification, and injects latency drawn from a configurable
+ * distribution. Needs no credentials - use it for demos, CI, and to check that
+ * the statistics pipeline reports known ground truth.
+ *
+ * Configuration (all optional):
+ * - MOCK_LATENCY_DISTRIBUTION: constant | normal | lognormal | bimodal (default: normal)
+ * - MOCK_LATENCY_MS: constant value, mean (normal) or median (lognormal) (default: 150)
+ * - MOCK_LATENCY_STDDEV_MS: standard deviation for normal/bimodal (default: 20)
+ * - MOCK_LATENCY_SIGMA: log-space standard deviation for lognormal (default: 0.25)
+ * - MOCK_TAIL_PROBABILITY: share of requests in the slow mode for bimodal (default: 0.05)
+ * - MOCK_TAIL_LATENCY_MS: mean latency of the slow mode for bimodal (default: 800)
+ * - MOCK_ERROR_RATE: share of requests that fail, 0-1 (default: 0)
+ * - MOCK_ERROR_STATUS: HTTP status reported by injected failures, e.g. 429 (default: 500)
+ */
+
+type LatencyDistribution = 'constant' | 'normal' | 'lognormal' | 'bimodal';
+
+const LATENCY_DISTRIBUTIONS: LatencyDistribution[] = ['constant', 'normal', 'lognormal', 'bimodal'];
+
+interface MockConfig {
+  distribution: LatencyDistribution;
+  latencyMs: number;
+  stdDevMs: number;
+  sigma: number;
+  tailProbability: number;
+  tailLatencyMs: number;
+  errorRate: number;
+  errorStatus: number;
+}
+
+/**
+ * Read a numeric env var, falling back to a default when unset
+ */
+function numberFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * Sample from the standard normal distribution (Box-Muller)
+ */
+function standardNormal(): number {
+  const u = 1 - Math.random(); // (0, 1] so log() is finite
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export const manifest: ServiceManifest = {
+  chains: ['ethereum', 'solana'],
+  env: [
+    { name: 'MOCK_LATENCY_DISTRIBUTION', description: 'constant, normal, lognormal or bimodal', optional: true },
+    { name: 'MOCK_LATENCY_MS', description: 'Constant value, mean or median latency', optional: true },
+    { name: 'MOCK_LATENCY_STDDEV_MS', description: 'Standard deviation for normal/bimodal', optional: true },
+    { name: 'MOCK_LATENCY_SIGMA', description: 'Log-space standard deviation for lognormal', optional: true },
+    { name: 'MOCK_TAIL_PROBABILITY', description: 'Share of requests in the slow mode for bimodal', optional: true },
+    { name: 'MOCK_TAIL_LATENCY_MS', description: 'Mean latency of the slow mode for bimodal', optional: true },
+    { name: 'MOCK_ERROR_RATE', description: 'Share of requests that fail, 0-1', optional: true },
+    { name: 'MOCK_ERROR_STATUS', description: 'HTTP status reported by injected failures', optional: true },
+  ],
+};
+
+/**
+ * Skip the mock when benchmarking "all" services so it is never ranked next
+ * to real providers. Select it explicitly with `npm run benchmark mock ...`.
+ */
+export const includeInAll = false;
+
+// Must export as default for auto-discovery
+export default class MockWalletService implements WalletService {
+  private isInitialized = false;
+  private config?: MockConfig;
+  private ethereumAccount?: PrivateKeyAccount;
+  private solanaKeypair?: Keypair;
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    // Load configuration from environment variables
+    const distribution = (process.env.MOCK_LATENCY_DISTRIBUTION || 'normal') as LatencyDistribution;
+    if (!LATENCY_DISTRIBUTIONS.includes(distribution)) {
+      throw new Error(`MOCK_LATENCY_DISTRIBUTION must be one of: ${LATENCY_DISTRIBUTIONS.join(', ')}`);
+    }
+
+    this.config = {
+      distribution,
+      latencyMs: numberFromEnv('MOCK_LATENCY_MS', 150),
+      stdDevMs: numberFromEnv('MOCK_LATENCY_STDDEV_MS', 20),
+      sigma: numberFromEnv('MOCK_LATENCY_SIGMA', 0.25),
+      tailProbability: numberFromEnv('MOCK_TAIL_PROBABILITY', 0.05),
+      tailLatencyMs: numberFromEnv('MOCK_TAIL_LATENCY_MS', 800),
+      errorRate: numberFromEnv('MOCK_ERROR_RATE', 0),
+      errorStatus: numberFromEnv('MOCK_ERROR_STATUS', 500),
+    };
+
+    if (this.config.errorRate > 1 || this.config.tailProbability > 1) {
+      throw new Error('MOCK_ERROR_RATE and MOCK_TAIL_PROBABILITY must be between 0 and 1');
+    }
+
+    // Fresh keys for every run
+    this.ethereumAccount = privateKeyToAccount(generatePrivateKey());
+    this.solanaKeypair = Keypair.generate();
+
+    this.isInitialized = true;
+  }
+
+  /**
+   * Draw a latency in milliseconds from the configured distribution
+   */
+  private sampleLatency(): number {
+    const { distribution, latencyMs, stdDevMs, sigma, tailProbability, tailLatencyMs } = this.config!;
+
+    switch (distribution) {
+      case 'constant':
+        return latencyMs;
+      case 'normal':
+        return Math.max(0, latencyMs + stdDevMs * standardNormal());
+      case 'lognormal':
+        return latencyMs * Math.exp(sigma * standardNormal());
+      case 'bimodal': {
+        const mean = Math.random() < tailProbability ? tailLatencyMs : latencyMs;
+        return Math.max(0, mean + stdDevMs * standardNormal());
+      }
+    }
+  }
+
+  /**
+   * Wait like a network call would, stopping early if the call is aborted
+   */
+  private wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Simulate the provider round trip: wait, maybe fail, then sign locally
+   *
+   * Local signing happens outside the timed section, so `apiLatencyMs` is
+   * the sampled latency alone.
+   */
+  private async simulateCall<T>(
+    sign: () => T | Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ value: T; apiLatencyMs: number }> {
+    if (!this.isInitialized) {
+      throw new Error('Not initialized. Call initialize() first.');
+    }
+
+    const delayMs = this.sampleLatency();
+
+    // Time ONLY the simulated API call
+    const apiStart = performance.now();
+    await this.wait(delayMs, signal);
+    if (Math.random() < this.config!.errorRate) {
+      throw new WalletServiceError(`Mock API error: injected ${this.config!.errorStatus} failure`, {
+        status: this.config!.errorStatus,
+      });
+    }
+    const apiEnd = performance.now();
+
+    return { value: await sign(), apiLatencyMs: apiEnd - apiStart };
+  }
+
+  async signMessageEthereum(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
+    try {
+      const { value: signature, apiLatencyMs } = await this.simulateCall(
+        () => this.ethereumAccount!.signMessage({ message: typeof message === 'string' ? message : { raw: message } }),
+        options?.signal
+      );
+
+      return {
+        signature,
+        apiLatencyMs,
+        walletAddress: this.ethereumAccount!.address,
+      };
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signMessageSolana(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
+    try {
+      const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+      const { value: signatureBytes, apiLatencyMs } = await this.simulateCall(
+        () => nacl.sign.detached(messageBytes, this.solanaKeypair!.secretKey),
+        options?.signal
+      );
+
+      return {
+        signature: Buffer.from(signatureBytes).toString('base64'),
+        apiLatencyMs,
+        walletAddress: this.solanaKeypair!.publicKey.toBase58(),
+      };
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Solana signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTypedDataEthereum(typedData: TypedDataDefinition, options?: SignOptions): Promise<ServiceResult> {
+    try {
+      const { value: signature, apiLatencyMs } = await this.simulateCall(
+        () => this.ethereumAccount!.signTypedData(typedData),
+        options?.signal
+      );
+
+      return {
+        signature,
+        apiLatencyMs,
+        walletAddress: this.ethereumAccount!.address,
+      };
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum typed data signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTransactionEthereum(transaction: TransactionSerializableEIP1559, options?: SignOptions): Promise<ServiceResult> {
+    try {
+      const { value: signedTransaction, apiLatencyMs } = await this.simulateCall(
+        () => this.ethereumAccount!.signTransaction(transaction),
+        options?.signal
+      );
+
+      return {
+        signature: signedTransaction,
+        apiLatencyMs,
+        walletAddress: this.ethereumAccount!.address,
+      };
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum transaction signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTransactionSolana(transfer: SolanaTransferRequest, options?: SignOptions): Promise<ServiceResult> {
+    try {
+      const walletAddress = this.solanaKeypair?.publicKey.toBase58();
+      const { value: signedTransaction, apiLatencyMs } = await this.simulateCall(() => {
+        const transaction = createSolanaTransferTransaction(transfer, walletAddress!);
+        transaction.sign(this.solanaKeypair!);
+        return transaction.serialize().toString('base64');
+      }, options?.signal);
+
+      return {
+        signature: signedTransaction,
+        apiLatencyMs,
+        walletAddress: walletAddress!,
+      };
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Solana transaction signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+}
@@ -1,5 +1,46 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { PrivyClient } from "@privy-io/node";
-import type { WalletService, ServiceResult } from '../index.js';
+import { toHex, type TransactionSerializableEIP1559, type TypedDataDefinition } from 'viem';
+import {
+  createSolanaTransferTransaction,
+  missingEnvVars,
+  WalletServiceError,
+  type ServiceManifest,
+  type ServiceResult,
+  type SignableMessage,
+  type SignOptions,
+  type SolanaTransferRequest,
+  type WalletService,
+} from '../index.js';
+
+export const manifest: ServiceManifest = {
+  chains: ['ethereum', 'solana'],
+  env: [
+    { name: 'PRIVY_APP_ID', description: 'App ID from https://dashboard.privy.io' },
+    { name: 'PRIVY_APP_SECRET', description: 'App secret from https://dashboard.privy.io' },
+    { name: 'PRIVY_ETHEREUM_WALLET_ID', description: 'ID of the server wallet to sign with', chains: ['ethereum'] },
+    { name: 'PRIVY_ETHEREUM_WALLET_ADDRESS', description: 'Address of that wallet, for verification', chains: ['ethereum'] },
+    { name: 'PRIVY_SOLANA_WALLET_ID', description: 'ID of the server wallet to sign with', chains: ['solana'] },
+    { name: 'PRIVY_SOLANA_WALLET_ADDRESS', description: 'Address of that wallet, for verification', chains: ['solana'] },
+  ],
+};
+
+/**
+ * Abort signal of the signing call in progress
+ *
+ * The SDK's signing helpers take no request options, so the signal is
+ * handed to the client's fetch through async context instead.
+ */
+const callSignal = new AsyncLocalStorage<AbortSignal | undefined>();
+
+/**
+ * fetch that is also aborted by the signal of the current signing call
+ */
+function abortableFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const signal = callSignal.getStore();
+  if (!signal) return fetch(input, init);
+  return fetch(input, { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal });
+}
 
 // Must export as default for auto-discovery
 export default class PrivyWalletService implements WalletService {
@@ -16,24 +57,21 @@ export default class PrivyWalletService implements WalletService {
     // Load credentials from environment variables
     const appId = process.env.PRIVY_APP_ID;
     const appSecret = process.env.PRIVY_APP_SECRET;
-    const ethereumWalletId = process.env.PRIVY_ETHEREUM_WALLET_ID;
     this.ethereumWalletAddress = process.env.PRIVY_ETHEREUM_WALLET_ADDRESS;
     this.solanaWalletAddress = process.env.PRIVY_SOLANA_WALLET_ADDRESS;
 
-    // Validate required configuration
-    if (!appId || !appSecret || !ethereumWalletId) {
-      throw new Error('Missing required env vars: PRIVY_APP_ID, PRIVY_APP_SECRET, PRIVY_ETHEREUM_WALLET_ID');
-    }
-
-    if (!this.ethereumWalletAddress) {
-      throw new Error('Missing PRIVY_ETHEREUM_WALLET_ADDRESS - required for signature verification');
+    // Validate required configuration (Solana variables are checked when signing on Solana)
+    const missing = missingEnvVars(manifest, ['ethereum']);
+    if (missing.length > 0) {
+      throw new Error(`Missing required env vars: ${missing.join(', ')}`);
     }
 
     try {
       // Initialize Privy SDK client
       this.privyClient = new PrivyClient({
-        appId,
-        appSecret,
+        appId: appId!,
+        appSecret: appSecret!,
+        fetch: abortableFetch,
       });
       this.isInitialized = true;
 
@@ -42,7 +80,7 @@ export default class PrivyWalletService implements WalletService {
     }
   }
 
-  async signMessageEthereum(message: string): Promise<ServiceResult> {
+  async signMessageEthereum(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
     if (!this.isInitialized || !this.privyClient) {
       throw new Error('Not initialized. Call initialize() first.');
     }
@@ -52,12 +90,12 @@ export default class PrivyWalletService implements WalletService {
     try {
       // Time ONLY the API call - exclude message prep and response parsing
       const apiStart = performance.now();
-      const { signature } = await this.privyClient.wallets().ethereum().signMessage(
+      const { signature } = await callSignal.run(options?.signal, () => this.privyClient!.wallets().ethereum().signMessage(
         walletId,
         {
           message,
         }
-      );
+      ));
       const apiEnd = performance.now();
 
       // Return signature and timing - runner will use these for benchmarking
@@ -70,11 +108,11 @@ export default class PrivyWalletService implements WalletService {
       return serviceResult;
 
     } catch (error: any) {
-      throw new Error(`Ethereum signing failed: ${error.message}`);
+      throw new WalletServiceError(`Ethereum signing failed: ${error.message}`, { status: error.status, cause: error });
     }
   }
 
-  async signMessageSolana(message: string): Promise<ServiceResult> {
+  async signMessageSolana(message: SignableMessage, options?: SignOptions): Promise<ServiceResult> {
     if (!this.isInitialized || !this.privyClient) {
       throw new Error('Not initialized. Call initialize() first.');
     }
@@ -91,16 +129,16 @@ export default class PrivyWalletService implements WalletService {
 
     try {
       // Solana signing requires message as bytes (not timed)
-      const messageBytes = new TextEncoder().encode(message);
+      const messageBytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
 
       // Time ONLY the API call
       const apiStart = performance.now();
-      const { signature } = await this.privyClient.wallets().solana().signMessage(
+      const { signature } = await callSignal.run(options?.signal, () => this.privyClient!.wallets().solana().signMessage(
         walletId,
         {
           message: messageBytes,
         }
-      );
+      ));
       const apiEnd = performance.now();
 
       // Return signature as-is - @privy-io/node returns it in the correct format
@@ -113,7 +151,140 @@ export default class PrivyWalletService implements WalletService {
       return serviceResult;
 
     } catch (error: any) {
-      throw new Error(`Solana signing failed: ${error.message}`);
+      throw new WalletServiceError(`Solana signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTypedDataEthereum(typedData: TypedDataDefinition, options?: SignOptions): Promise<ServiceResult> {
+    if (!this.isInitialized || !this.privyClient) {
+      throw new Error('Not initialized. Call initialize() first.');
+    }
+
+    const walletId = process.env.PRIVY_ETHEREUM_WALLET_ID!;
+
+    try {
+      // Privy expects JSON-safe values and a snake_case primary_type (not timed)
+      const { domain, types, message, primaryType } = JSON.parse(
+        JSON.stringify(typedData, (_, value) => typeof value === 'bigint' ? value.toString() : value)
+      );
+
+      // Time ONLY the API call
+      const apiStart = performance.now();
+      const { signature } = await callSignal.run(options?.signal, () => this.privyClient!.wallets().ethereum().signTypedData(
+        walletId,
+        {
+          params: {
+            typed_data: {
+              domain,
+              types,
+              message,
+              primary_type: primaryType,
+            },
+          },
+        }
+      ));
+      const apiEnd = performance.now();
+
+      const serviceResult: ServiceResult = {
+        signature,
+        apiLatencyMs: apiEnd - apiStart,
+        walletAddress: this.ethereumWalletAddress!, // Required for signature verification
+      };
+
+      return serviceResult;
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum typed data signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTransactionEthereum(transaction: TransactionSerializableEIP1559, options?: SignOptions): Promise<ServiceResult> {
+    if (!this.isInitialized || !this.privyClient) {
+      throw new Error('Not initialized. Call initialize() first.');
+    }
+
+    const walletId = process.env.PRIVY_ETHEREUM_WALLET_ID!;
+
+    try {
+      // Convert to Privy's transaction format (not timed)
+      const privyTransaction = {
+        type: 2 as const,
+        chain_id: transaction.chainId,
+        nonce: transaction.nonce,
+        to: transaction.to ?? undefined,
+        value: toHex(transaction.value ?? 0n),
+        gas_limit: toHex(transaction.gas!),
+        max_fee_per_gas: toHex(transaction.maxFeePerGas!),
+        max_priority_fee_per_gas: toHex(transaction.maxPriorityFeePerGas!),
+        data: transaction.data,
+      };
+
+      // Time ONLY the API call
+      const apiStart = performance.now();
+      const { signed_transaction } = await callSignal.run(options?.signal, () => this.privyClient!.wallets().ethereum().signTransaction(
+        walletId,
+        {
+          params: {
+            transaction: privyTransaction,
+          },
+        }
+      ));
+      const apiEnd = performance.now();
+
+      const serviceResult: ServiceResult = {
+        signature: signed_transaction,
+        apiLatencyMs: apiEnd - apiStart,
+        walletAddress: this.ethereumWalletAddress!, // Required for signature verification
+      };
+
+      return serviceResult;
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Ethereum transaction signing failed: ${error.message}`, { status: error.status, cause: error });
+    }
+  }
+
+  async signTransactionSolana(transfer: SolanaTransferRequest, options?: SignOptions): Promise<ServiceResult> {
+    if (!this.isInitialized || !this.privyClient) {
+      throw new Error('Not initialized. Call initialize() first.');
+    }
+
+    const walletId = process.env.PRIVY_SOLANA_WALLET_ID;
+
+    if (!walletId) {
+      throw new Error('Solana wallet not configured. Set PRIVY_SOLANA_WALLET_ID.');
+    }
+
+    if (!this.solanaWalletAddress) {
+      throw new Error('Missing PRIVY_SOLANA_WALLET_ADDRESS - required for signature verification');
+    }
+
+    try {
+      // Build and serialize the unsigned transaction (not timed)
+      const transaction = createSolanaTransferTransaction(transfer, this.solanaWalletAddress);
+      const transactionBytes = transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+      // Time ONLY the API call
+      const apiStart = performance.now();
+      const { signed_transaction } = await callSignal.run(options?.signal, () => this.privyClient!.wallets().solana().signTransaction(
+        walletId,
+        {
+          transaction: transactionBytes,
+        }
+      ));
+      const apiEnd = performance.now();
+
+      // Privy returns the signed transaction as base64
+      const serviceResult: ServiceResult = {
+        signature: signed_transaction,
+        apiLatencyMs: apiEnd - apiStart,
+        walletAddress: this.solanaWalletAddress!, // Required for signature verification
+      };
+
+      return serviceResult;
+
+    } catch (error: any) {
+      throw new WalletServiceError(`Solana transaction signing failed: ${error.message}`, { status: error.status, cause: error });
     }
   }
 }